@@ -1,14 +1,15 @@
 
 import '@angular/compiler';
 import { bootstrapApplication } from '@angular/platform-browser';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideZonelessChangeDetection } from '@angular/core';
 import { AppComponent } from './src/app.component';
+import { sessionIdInterceptor } from './src/services/session-id.interceptor';
 
 bootstrapApplication(AppComponent, {
   providers: [
     provideZonelessChangeDetection(),
-    provideHttpClient()
+    provideHttpClient(withInterceptors([sessionIdInterceptor]))
   ]
 }).catch(err => console.error(err));
 
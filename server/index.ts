@@ -2,6 +2,12 @@ import 'dotenv/config';
 import express from 'express';
 import geminiRouter from './routes/gemini';
 import tagsRouter from './routes/tags';
+import moderationRouter from './routes/moderation';
+import historyRouter from './routes/history';
+import { getResponseCache } from './lib/cache';
+import { errorHandler } from './lib/errors';
+import { logger } from './lib/logger';
+import { requestLogger } from './middleware/request-logger';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -9,14 +15,32 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
+
+// Behind Cloud Run or another reverse proxy, per-IP rate limits need the client address from X-Forwarded-For.
+// TRUST_PROXY is a hop count (e.g. 1), "true", or a list of proxy addresses.
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set('trust proxy', trustProxy === 'true' ? true : Number(trustProxy) || trustProxy);
+}
+
+app.use(requestLogger);
 app.use(express.json());
 app.use('/api/gemini', geminiRouter);
 app.use('/api/tags', tagsRouter);
+app.use('/api/moderation', moderationRouter);
+app.use('/api/history', historyRouter);
+
+// Hit/miss counters for the shared model response cache
+app.get('/api/cache/stats', (_req, res) => {
+  res.json(getResponseCache().getStats());
+});
 
 // Serve static frontend build if present (optional)
 app.use(express.static(path.join(__dirname, '..', 'dist')));
 
+app.use(errorHandler);
+
 const port = process.env.PORT || 3001;
 app.listen(port, () => {
-  console.log(`Server listening on port ${port}`);
+  logger.info('server_started', { port: Number(port) });
 });
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisStreamParser, type AnalysisStreamEvent } from './analysis-stream-parser';
+
+// Feeds the text in small chunks, as a provider would stream it
+function parse(text: string, chunkSize = 7): AnalysisStreamEvent[] {
+  const parser = new AnalysisStreamParser();
+  const events: AnalysisStreamEvent[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) events.push(...parser.push(text.slice(i, i + chunkSize)));
+  return events;
+}
+
+const scores = (events: AnalysisStreamEvent[]) => events.filter(event => event.type === 'score');
+
+describe('AnalysisStreamParser score', () => {
+  it('sends the overall score once it is complete', () => {
+    assert.deepEqual(scores(parse('{"score": 72, "feedback": "Good"}')), [{ type: 'score', score: 72 }]);
+  });
+
+  it('ignores rubric sub-scores that arrive before the overall score', () => {
+    const text = JSON.stringify({
+      rubric: { clarity: { score: 3, reason: 'Vague "score": 1 verb' }, context: { score: 2, reason: 'None' } },
+      feedback: 'Add an audience.',
+      score: 55
+    });
+    assert.deepEqual(scores(parse(text)), [{ type: 'score', score: 55 }]);
+  });
+
+  it('ignores a "score" key inside a string', () => {
+    assert.deepEqual(scores(parse('{"feedback": "\\"score\\": 99", "score": 40}')), [{ type: 'score', score: 40 }]);
+  });
+});
@@ -0,0 +1,178 @@
+// Incrementally pulls fields out of a streamed /analyze JSON response so the
+// client can render them before the whole object has arrived. The model emits
+// keys in schema order (score, rubric, feedback, improvedPrompt), which is what
+// makes the simple pattern matching below reliable. The overall score is the
+// exception: OpenAI-compatible servers may not keep that order, and the rubric
+// holds "score" keys of its own, so only a top-level "score" counts.
+
+import type { Rubric } from '../../shared/rubric';
+
+export const IMPROVED_PROMPT_FIELDS = ['role', 'context', 'task', 'exemplars', 'persona', 'format', 'tone'] as const;
+export type ImprovedPromptField = typeof IMPROVED_PROMPT_FIELDS[number];
+
+export type AnalysisStreamEvent =
+  | { type: 'score'; score: number }
+  | { type: 'rubric'; rubric: Rubric }
+  | { type: 'feedback'; delta: string }
+  | { type: 'improved'; field: ImprovedPromptField; value: string | string[] | null };
+
+// Decodes the body of a JSON string literal that may be cut off mid-escape
+function decodePartialString(raw: string): string {
+  const safe = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${safe}"`);
+  } catch {
+    return safe;
+  }
+}
+
+export class AnalysisStreamParser {
+  private buffer = '';
+  private scoreSent = false;
+  private rubricSent = false;
+  private feedbackSent = '';
+  private feedbackDone = false;
+  private readonly fieldsSent = new Set<ImprovedPromptField>();
+
+  push(chunk: string): AnalysisStreamEvent[] {
+    this.buffer += chunk;
+    const events: AnalysisStreamEvent[] = [];
+
+    if (!this.scoreSent) {
+      // Require a delimiter after the number so "7" is not sent before "72" arrives
+      const start = this.topLevelValueStart('score');
+      const match = start === undefined ? null : this.buffer.slice(start).match(/^(-?\d+(?:\.\d+)?)\s*[,}\s]/);
+      if (match) {
+        this.scoreSent = true;
+        events.push({ type: 'score', score: Number(match[1]) });
+      }
+    }
+
+    // The sub-scores are small, so they are sent once the whole object has arrived
+    if (!this.rubricSent) {
+      const rubric = this.completedObject('rubric');
+      if (rubric) {
+        this.rubricSent = true;
+        events.push({ type: 'rubric', rubric: rubric as Rubric });
+      }
+    }
+
+    if (!this.feedbackDone) {
+      const match = this.buffer.match(/"feedback"\s*:\s*"((?:[^"\\]|\\.)*)(")?/);
+      if (match) {
+        const text = decodePartialString(match[1]);
+        if (text.length > this.feedbackSent.length && text.startsWith(this.feedbackSent)) {
+          events.push({ type: 'feedback', delta: text.slice(this.feedbackSent.length) });
+          this.feedbackSent = text;
+        }
+        this.feedbackDone = match[2] === '"';
+      }
+    }
+
+    const improvedStart = this.buffer.indexOf('"improvedPrompt"');
+    if (improvedStart >= 0) {
+      const section = this.buffer.slice(improvedStart);
+      for (const field of IMPROVED_PROMPT_FIELDS) {
+        if (this.fieldsSent.has(field)) continue;
+        const value = this.completedValue(section, field);
+        if (value !== undefined) {
+          this.fieldsSent.add(field);
+          events.push({ type: 'improved', field, value });
+        }
+      }
+    }
+
+    return events;
+  }
+
+  // Feedback text sent so far; used to emit any tail the patterns missed
+  get sentFeedback(): string {
+    return this.feedbackSent;
+  }
+
+  get sentRubric(): boolean {
+    return this.rubricSent;
+  }
+
+  hasSentField(field: ImprovedPromptField): boolean {
+    return this.fieldsSent.has(field);
+  }
+
+  get text(): string {
+    return this.buffer;
+  }
+
+  // Index where the value of a key of the outermost object starts, or undefined until that key has arrived
+  private topLevelValueStart(key: string): number | undefined {
+    let depth = 0;
+    let stringStart = -1;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (stringStart >= 0) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          if (depth === 1 && this.buffer.slice(stringStart + 1, i) === key) {
+            const colon = /\s*:\s*/y;
+            colon.lastIndex = i + 1;
+            if (colon.test(this.buffer)) return colon.lastIndex;
+          }
+          stringStart = -1;
+        }
+      } else if (char === '"') {
+        stringStart = i;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      }
+    }
+    return undefined;
+  }
+
+  // Returns a fully-received top-level object value, or undefined while its closing brace is still streaming
+  private completedObject(key: string): object | undefined {
+    const start = this.buffer.match(new RegExp(`"${key}"\\s*:\\s*\\{`));
+    if (!start) return undefined;
+    const from = start.index! + start[0].length - 1;
+    let depth = 0;
+    let inString = false;
+    for (let i = from; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        try {
+          return JSON.parse(this.buffer.slice(from, i + 1));
+        } catch {
+          return undefined;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Returns the value of a fully-received field, or undefined if it is still streaming
+  private completedValue(section: string, field: ImprovedPromptField): string | string[] | null | undefined {
+    const key = `"${field}"\\s*:\\s*`;
+    const stringMatch = section.match(new RegExp(`${key}"((?:[^"\\\\]|\\\\.)*)"`));
+    if (stringMatch) return decodePartialString(stringMatch[1]);
+
+    const arrayMatch = section.match(new RegExp(`${key}(\\[(?:[^\\]"]|"(?:[^"\\\\]|\\\\.)*")*\\])`));
+    if (arrayMatch) {
+      try {
+        return JSON.parse(arrayMatch[1]);
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (new RegExp(`${key}null`).test(section)) return null;
+    return undefined;
+  }
+}
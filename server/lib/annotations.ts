@@ -0,0 +1,46 @@
+import type { PromptAnnotation, QuotedAnnotation } from '../../shared/annotations';
+
+export type { AnnotationType, PromptAnnotation, QuotedAnnotation } from '../../shared/annotations';
+
+// --- Prompt annotations ---
+// Models are poor at counting characters, so the model (and the offline scorer)
+// quote the weak words instead, and the server finds them in the prompt.
+
+export const MAX_ANNOTATIONS = 5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// First whole-word occurrence of the quote (any case) that does not overlap a span already taken
+function findFreeSpan(prompt: string, quote: string, taken: PromptAnnotation[]): number {
+  const before = /^\w/.test(quote) ? '(?<!\\w)' : '';
+  const after = /\w$/.test(quote) ? '(?!\\w)' : '';
+  for (const match of prompt.matchAll(new RegExp(`${before}${escapeRegExp(quote)}${after}`, 'gi'))) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (!taken.some(span => start < span.end && end > span.start)) return start;
+  }
+  return -1;
+}
+
+/**
+ * Turns quoted annotations into character ranges of `prompt`, in prompt order.
+ * Quotes that cannot be found, overlap an earlier annotation or would not
+ * change anything are dropped.
+ */
+export function locateAnnotations(prompt: string, annotations: QuotedAnnotation[]): PromptAnnotation[] {
+  const located: PromptAnnotation[] = [];
+  for (const annotation of annotations) {
+    const quote = annotation.text.trim();
+    const fix = annotation.fix.trim();
+    if (!quote || !fix || quote === fix) continue;
+
+    const start = findFreeSpan(prompt, quote, located);
+    if (start < 0) continue;
+    const end = start + quote.length;
+    located.push({ type: annotation.type, start, end, text: prompt.slice(start, end), message: annotation.message, fix });
+    if (located.length === MAX_ANNOTATIONS) break;
+  }
+  return located.sort((a, b) => a.start - b.start);
+}
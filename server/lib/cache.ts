@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// --- Model response cache ---
+// A bounded LRU cache shared by every route that calls the model. Entries live
+// in memory; a store decides whether they also survive a restart.
+
+export interface CacheEntry {
+  key: string;
+  data: any;
+  timestamp: number;
+}
+
+export interface CacheStore {
+  load(): CacheEntry[];
+  save(entries: CacheEntry[]): void;
+}
+
+export interface CacheStats {
+  backend: string;
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+// Keeps nothing between restarts
+export class MemoryCacheStore implements CacheStore {
+  load(): CacheEntry[] {
+    return [];
+  }
+
+  save(): void {}
+}
+
+// Persists entries as a JSON file. Writes are batched so a burst of requests
+// results in a single disk write.
+export class FileCacheStore implements CacheStore {
+  private writeTimer: NodeJS.Timeout | null = null;
+  private pending: CacheEntry[] | null = null;
+
+  constructor(private readonly filePath: string, private readonly writeDelayMs = 1000) {}
+
+  load(): CacheEntry[] {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(entries: CacheEntry[]): void {
+    this.pending = entries;
+    if (this.writeTimer) return;
+    this.writeTimer = setTimeout(() => this.flush(), this.writeDelayMs);
+    this.writeTimer.unref();
+  }
+
+  flush(): void {
+    if (this.writeTimer) clearTimeout(this.writeTimer);
+    this.writeTimer = null;
+    if (!this.pending) return;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.pending));
+    } catch (error) {
+      logger.warn('cache_persist_failed', { error });
+    }
+    this.pending = null;
+  }
+}
+
+// Normalizes one key part: case, surrounding and repeated whitespace, and array order don't matter
+function normalizePart(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (Array.isArray(value)) return value.map(normalizePart).map(v => JSON.stringify(v)).sort();
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().map(k => [k, normalizePart((value as Record<string, unknown>)[k])]);
+  }
+  return value ?? null;
+}
+
+/**
+ * Builds a cache key from a namespace (usually the route) and the request
+ * values that affect the model output.
+ */
+export function buildCacheKey(namespace: string, parts: Record<string, unknown>): string {
+  return `${namespace}:${JSON.stringify(normalizePart(parts))}`;
+}
+
+export class ResponseCache {
+  // Map iteration order is insertion order, so the first key is always the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+    private readonly backendName: string
+  ) {
+    const now = Date.now();
+    for (const entry of store.load()) {
+      if (now - entry.timestamp < ttlMs) this.entries.set(entry.key, entry);
+    }
+    this.evictOverflow();
+  }
+
+  get<T = any>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    if (Date.now() - entry.timestamp >= this.ttlMs) {
+      this.entries.delete(key); // Expired
+      this.misses++;
+      this.persist();
+      return undefined;
+    }
+    // Move to the most-recently-used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.data as T;
+  }
+
+  set(key: string, data: any): void {
+    this.entries.delete(key);
+    this.entries.set(key, { key, data, timestamp: Date.now() });
+    this.evictOverflow();
+    this.persist();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.persist();
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.backendName,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000
+    };
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  private persist(): void {
+    this.store.save([...this.entries.values()]);
+  }
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_CACHE_FILE = '.cache/response-cache.json';
+
+/**
+ * Configured with:
+ *   CACHE_BACKEND=memory | file   (default memory)
+ *   CACHE_FILE=.cache/response-cache.json
+ *   CACHE_MAX_ENTRIES=500
+ *   CACHE_TTL_MS=600000
+ */
+function createCache(): ResponseCache {
+  const backend = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+  const maxEntries = Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  const ttlMs = Number(process.env.CACHE_TTL_MS) || DEFAULT_TTL_MS;
+
+  if (backend === 'file') {
+    const store = new FileCacheStore(path.resolve(process.env.CACHE_FILE || DEFAULT_CACHE_FILE));
+    // Don't lose the last batch of writes on shutdown
+    process.once('exit', () => store.flush());
+    return new ResponseCache(store, maxEntries, ttlMs, 'file');
+  }
+
+  if (backend !== 'memory') {
+    logger.warn('cache_backend_unknown', { backend, using: 'memory' });
+  }
+  return new ResponseCache(new MemoryCacheStore(), maxEntries, ttlMs, 'memory');
+}
+
+let cache: ResponseCache | undefined;
+
+export function getResponseCache(): ResponseCache {
+  if (!cache) {
+    cache = createCache();
+  }
+  return cache;
+}
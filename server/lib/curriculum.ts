@@ -0,0 +1,106 @@
+import type { JsonSchema } from '../llm/types';
+import { BOARDS, SUBJECTS, resolveChapter } from '../../shared/curriculum';
+import type { Board, CurriculumChapter, DetectedMeta, Subject } from '../../shared/curriculum';
+
+export type { CurriculumChapter, DetectedMeta } from '../../shared/curriculum';
+
+// The `detected` field of tag and analysis requests. Routes only act on it
+// through resolveLearner, so the model prompt gets the taxonomy's board,
+// subject, chapter and concept names rather than text from the request.
+export const detectedMetaSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    class: { type: 'number', minimum: 1, maximum: 12 },
+    board: { type: 'string', maxLength: 60 },
+    subject: { type: 'string', maxLength: 60 },
+    chapter: { type: 'string', maxLength: 120 }
+  }
+};
+
+// Wording that suits each stage of school, by the highest class it covers
+const READING_LEVELS: { upTo: number; wording: string }[] = [
+  { upTo: 5, wording: 'very short sentences and everyday words a primary school child knows' },
+  { upTo: 8, wording: 'short, simple sentences that explain each subject term the first time it is used' },
+  { upTo: 10, wording: 'clear, plain sentences using the standard subject terms of the board exams' },
+  { upTo: 12, wording: 'precise subject vocabulary suitable for senior secondary and entrance exam preparation' }
+];
+
+/** Who a request is for, limited to values the taxonomy knows. */
+export interface Learner {
+  classLevel?: number;
+  board?: Board;
+  subject?: Subject;
+  syllabus?: CurriculumChapter;
+}
+
+function known<T extends string>(values: readonly T[], value: string | undefined): T | undefined {
+  const wanted = value?.trim().toLowerCase();
+  return wanted ? values.find(v => v.toLowerCase() === wanted) : undefined;
+}
+
+/**
+ * The learner a `detected` field describes. A board or subject outside the
+ * taxonomy is dropped. The class the client sent wins; a chapter that resolves
+ * sets the subject, and the class only when none was sent.
+ */
+export function resolveLearner(meta: DetectedMeta | undefined): Learner {
+  const board = known(BOARDS, meta?.board);
+  const classLevel = Number.isInteger(meta?.class) ? meta!.class : undefined;
+  const subject = known(SUBJECTS, meta?.subject);
+  const syllabus = resolveChapter({ class: classLevel, board, subject, chapter: meta?.chapter });
+  const learner: Learner = {};
+  if (classLevel !== undefined || syllabus) learner.classLevel = classLevel ?? syllabus?.classLevel;
+  if (board) learner.board = board;
+  if (subject || syllabus) learner.subject = syllabus?.subject ?? subject;
+  if (syllabus) learner.syllabus = syllabus;
+  return learner;
+}
+
+/** The learner as sent back in a response's `metadata`. */
+export function learnerMetadata(learner: Learner): DetectedMeta {
+  const meta: DetectedMeta = {};
+  if (learner.classLevel !== undefined) meta.class = learner.classLevel;
+  if (learner.board) meta.board = learner.board;
+  if (learner.subject) meta.subject = learner.subject;
+  if (learner.syllabus) meta.chapter = learner.syllabus.chapter;
+  return meta;
+}
+
+/** Cache key part for a learner (undefined when nothing is known). */
+export function learnerKey(learner: Learner): string | undefined {
+  const parts = [learner.classLevel, learner.board, learner.subject, learner.syllabus?.chapter];
+  return parts.some(part => part !== undefined) ? parts.map(part => part ?? '').join('/') : undefined;
+}
+
+/** How the model should word its output for a class ('' when the class is unknown). */
+export function readingLevel(classLevel: number | undefined): string {
+  if (classLevel === undefined) return '';
+  return READING_LEVELS.find(level => classLevel <= level.upTo)?.wording ?? '';
+}
+
+/** e.g. "in Class 8, following the CBSE syllabus, studying Mathematics" ('' when nothing is known). */
+export function describeLearner(learner: Learner): string {
+  return [
+    learner.classLevel !== undefined && `in Class ${learner.classLevel}`,
+    learner.board && `following the ${learner.board} syllabus`,
+    learner.subject && `studying ${learner.subject}`
+  ].filter(Boolean).join(', ');
+}
+
+/** The chapter a learner is on, for the model prompt ('' without one). */
+export function syllabusSentence(learner: Learner): string {
+  const syllabus = learner.syllabus;
+  if (!syllabus) return '';
+  return `The topic is in the chapter "${syllabus.chapter}" (key concepts: ${syllabus.concepts.join(', ')}).`;
+}
+
+/** Lines for a tag prompt fitting the suggestions to the learner ('' when nothing is known). */
+export function learnerPromptNote(learner: Learner): string {
+  const lines: string[] = [];
+  const who = describeLearner(learner);
+  if (who) lines.push(`Learner: a student ${who}. Fit the suggestions to them.`);
+  if (learner.syllabus) lines.push(`Syllabus: ${syllabusSentence(learner)} Stay within this chapter and use its terms.`);
+  const wording = readingLevel(learner.classLevel);
+  if (wording) lines.push(`Reading level: the suggestions should ask for ${wording}.`);
+  return lines.map(line => `\n    ${line}`).join('');
+}
@@ -0,0 +1,75 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError } from '../../shared/api-error';
+import { getRequestId, setLogContext } from '../middleware/request-logger';
+
+export { ApiError } from '../../shared/api-error';
+export type { ApiErrorBody, ApiErrorCode, FieldIssue } from '../../shared/api-error';
+
+const isDevelopment = process.env.NODE_ENV !== 'production';
+
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN']);
+
+// Seconds to wait after the upstream provider reports an exhausted quota
+const QUOTA_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Classifies anything thrown while handling a request. Provider errors are
+ * recognised by their HTTP status or network code (LlmProviderError, the
+ * @google/genai ApiError and fetch failures all expose one of them).
+ */
+export function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  // An aborted provider call (LLM_TIMEOUT_MS) counts as a timed-out connection
+  const aborted = error?.name === 'TimeoutError' || error?.name === 'AbortError';
+  const networkCode: string | undefined = aborted ? 'ETIMEDOUT' : error?.code ?? error?.cause?.code;
+  const details = isDevelopment
+    ? { message: error?.message, upstreamStatus: status, code: networkCode }
+    : undefined;
+
+  // Gemini answers an invalid key with 400 INVALID_ARGUMENT rather than 401
+  if (status === 401 || (status === 400 && /api key/i.test(error?.message || ''))) {
+    return new ApiError('AUTH_FAILED', { details });
+  }
+  if (status === 403 || status === 404) {
+    return new ApiError('MODEL_ACCESS_DENIED', { details });
+  }
+  if (status === 429) {
+    return new ApiError('QUOTA_EXCEEDED', { retryAfter: QUOTA_RETRY_AFTER_SECONDS, details });
+  }
+  if ((networkCode && NETWORK_ERROR_CODES.has(networkCode)) || (status !== undefined && status >= 500)) {
+    return new ApiError('PROVIDER_UNAVAILABLE', { details });
+  }
+  if (error instanceof SyntaxError) {
+    return new ApiError('MODEL_RESPONSE_INVALID', { details });
+  }
+  return new ApiError('INTERNAL', { details });
+}
+
+// Writes the standard error body, with the request ID and a Retry-After header when relevant
+export function sendError(res: Response, error: unknown) {
+  const apiError = toApiError(error);
+  setLogContext(res, { errorCategory: apiError.code });
+  if (apiError.retryAfter !== undefined) {
+    res.setHeader('Retry-After', apiError.retryAfter);
+  }
+  return res.status(apiError.status).json({ ...apiError.toBody(), requestId: getRequestId(res) });
+}
+
+// Routes that degrade instead of failing (static tag suggestions, the offline
+// scorer) still send the error code, so the client can explain why.
+export function fallbackReason(res: Response, apiError: ApiError) {
+  setLogContext(res, { outcome: 'fallback', errorCategory: apiError.code });
+  return { fallback: true, code: apiError.code, message: apiError.message, retryable: apiError.retryable };
+}
+
+// Last-resort Express error handler, so malformed JSON bodies and unexpected
+// throws still get the standard error body instead of an HTML page
+export function errorHandler(error: any, _req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(error);
+  if (error?.type === 'entity.parse.failed') {
+    return sendError(res, new ApiError('VALIDATION_FAILED', { message: 'The request body is not valid JSON.' }));
+  }
+  sendError(res, error);
+}
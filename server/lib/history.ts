@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// --- Analysis history sync ---
+// An optional server copy of the analyses each browser keeps in IndexedDB,
+// keyed by a random ID the browser generates. Clients put personal details back
+// into placeholders before sending, so entries carry no names or contact details.
+
+export interface HistoryRecord {
+  id: string;
+  createdAt: string;
+  [field: string]: unknown;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_KEYS = 1000;
+const DEFAULT_MAX_KEYS_PER_IP = 20;
+
+export class HistoryStore {
+  private readonly byKey = new Map<string, Map<string, HistoryRecord>>();
+  // Keys each client address has created since start-up, so one address cannot fill the store
+  private readonly keysByIp = new Map<string, Set<string>>();
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+    private readonly maxKeys = DEFAULT_MAX_KEYS,
+    private readonly maxKeysPerIp = DEFAULT_MAX_KEYS_PER_IP,
+    private readonly filePath?: string,
+    private readonly writeDelayMs = 1000
+  ) {
+    this.load();
+  }
+
+  /** A key's entries, newest first. */
+  list(key: string): HistoryRecord[] {
+    return [...(this.byKey.get(key)?.values() ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Adds or replaces an entry; the key's oldest entries go beyond the limit.
+   * Other browsers' history is never dropped to make room: a new key is refused
+   * (false) when the store is full or its address has created too many.
+   */
+  put(key: string, record: HistoryRecord, ip: string): boolean {
+    let entries = this.byKey.get(key);
+    if (!entries) {
+      const created = this.keysByIp.get(ip) ?? new Set<string>();
+      if (this.byKey.size >= this.maxKeys || (!created.has(key) && created.size >= this.maxKeysPerIp)) {
+        return false;
+      }
+      this.keysByIp.set(ip, created.add(key));
+      entries = new Map<string, HistoryRecord>();
+      this.byKey.set(key, entries);
+    }
+    entries.set(record.id, record);
+
+    for (const stale of this.list(key).slice(this.maxEntries)) entries.delete(stale.id);
+    this.scheduleWrite();
+    return true;
+  }
+
+  remove(key: string, id: string): void {
+    if (this.byKey.get(key)?.delete(id)) this.scheduleWrite();
+  }
+
+  clear(key: string): void {
+    if (this.byKey.delete(key)) this.scheduleWrite();
+  }
+
+  private load(): void {
+    if (!this.filePath) return;
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, HistoryRecord[]>;
+      for (const [key, records] of Object.entries(parsed)) {
+        this.byKey.set(key, new Map(records.map(record => [record.id, record])));
+      }
+    } catch {
+      // No file yet, or unreadable: start empty
+    }
+  }
+
+  // Batched like the file cache, so a burst of saves is one disk write
+  private scheduleWrite(): void {
+    if (!this.filePath || this.writeTimer) return;
+    this.writeTimer = setTimeout(() => this.flush(), this.writeDelayMs);
+    this.writeTimer.unref();
+  }
+
+  flush(): void {
+    if (this.writeTimer) clearTimeout(this.writeTimer);
+    this.writeTimer = null;
+    if (!this.filePath) return;
+    try {
+      const data = Object.fromEntries([...this.byKey].map(([key, entries]) => [key, [...entries.values()]]));
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(data));
+    } catch (error) {
+      logger.warn('history_persist_failed', { error });
+    }
+  }
+}
+
+/** Sync is off unless HISTORY_SYNC=true; browsers then keep history locally only. */
+export function isHistorySyncEnabled(): boolean {
+  return process.env.HISTORY_SYNC === 'true';
+}
+
+let store: HistoryStore | undefined;
+
+export function getHistoryStore(): HistoryStore {
+  if (!store) {
+    const filePath = process.env.HISTORY_FILE || undefined;
+    const created = new HistoryStore(
+      Number(process.env.HISTORY_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+      Number(process.env.HISTORY_MAX_KEYS) || DEFAULT_MAX_KEYS,
+      Number(process.env.HISTORY_MAX_KEYS_PER_IP) || DEFAULT_MAX_KEYS_PER_IP,
+      filePath
+    );
+    if (filePath) process.once('exit', () => created.flush());
+    store = created;
+  }
+  return store;
+}
@@ -0,0 +1,57 @@
+// --- Structured logging ---
+// One JSON object per line on stdout/stderr, so logs can be searched by
+// requestId or aggregated by route/outcome in Cloud Logging or similar.
+// Student-written text never reaches the logs: known fields are redacted to
+// their length before writing.
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Request/response fields that may contain what a student typed
+const STUDENT_TEXT_FIELDS = new Set([
+  'studentPrompt', 'topic', 'prompt', 'feedback', 'selectedTags', 'visibleTags',
+  'selectedSmartTags', 'selectedOutputTags', 'tags', 'text'
+]);
+
+function minLevel(): LogLevel {
+  const configured = (process.env.LOG_LEVEL || '').toLowerCase() as LogLevel;
+  if (configured in LEVEL_ORDER) return configured;
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+}
+
+function redact(value: unknown, key?: string): unknown {
+  if (key && STUDENT_TEXT_FIELDS.has(key)) {
+    if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+    if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+    if (value !== undefined && value !== null) return '[redacted]';
+  }
+  if (Array.isArray(value)) return value.map(item => redact(item));
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+function write(level: LogLevel, event: string, fields: Record<string, unknown>): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel()]) return;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...(redact(fields) as Record<string, unknown>)
+  });
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+}
+
+export const logger = {
+  debug: (event: string, fields: Record<string, unknown> = {}) => write('debug', event, fields),
+  info: (event: string, fields: Record<string, unknown> = {}) => write('info', event, fields),
+  warn: (event: string, fields: Record<string, unknown> = {}) => write('warn', event, fields),
+  error: (event: string, fields: Record<string, unknown> = {}) => write('error', event, fields),
+};
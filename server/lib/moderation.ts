@@ -0,0 +1,381 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+// --- Student-safety moderation ---
+// Everything students type (topics, prompts, tags) and everything the model
+// writes back (tags, feedback, improved prompts) is classified locally against
+// keyword lists and weighted cues. Each school can choose, per category, whether
+// flagged text is blocked, rewritten (masked) or allowed. Every flag is recorded
+// as a review event so teachers can follow up.
+
+export type ModerationCategory = 'self_harm' | 'violence' | 'sexual' | 'hate' | 'drugs' | 'profanity' | 'custom';
+export type ModerationAction = 'allow' | 'rewrite' | 'block';
+
+export interface ModerationPolicy {
+  actions: Record<ModerationCategory, ModerationAction>;
+  // School-specific words or phrases that are always blocked (category 'custom')
+  blockedTerms: string[];
+  // Phrases that are fine in this school's curriculum even though they contain a flagged word
+  allowedTerms: string[];
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  // Strictest action configured for the flagged categories ('allow' when nothing was flagged)
+  action: ModerationAction;
+  categories: ModerationCategory[];
+  // Input text with flagged words masked; only differs from the input when action is 'rewrite'
+  text: string;
+}
+
+export interface ModerationEvent {
+  time: string;
+  requestId?: string;
+  schoolId?: string;
+  sessionId?: string;
+  route?: string;
+  direction: 'input' | 'output';
+  // Request or response field the text came from, e.g. 'topic' or 'feedback'
+  field: string;
+  categories: ModerationCategory[];
+  action: ModerationAction;
+  // Start of the flagged text, for teacher review only (never written to the request logs)
+  excerpt: string;
+}
+
+interface CategoryRules {
+  // Flagged on their own
+  terms: RegExp[];
+  // Weighted cues; the category is flagged once the matched weights add up to 1
+  signals: Array<[RegExp, number]>;
+}
+
+// Kept to phrases that are unambiguous in a school setting: topics such as
+// "the atomic bomb in WW2", "sexual reproduction" or "Romeo and Juliet" must pass.
+const CATEGORY_RULES: Record<Exclude<ModerationCategory, 'custom'>, CategoryRules> = {
+  self_harm: {
+    terms: [
+      /\b(kill(ing)?|hurt(ing)?|cut(ting)?|harm(ing)?)\s+my\s?self\b/,
+      /\b(end|take)\s+my\s+(own\s+)?life\b/,
+      /\bi\s+(want|wanna|need)\s+to\s+die\b/,
+      /\bno\s+reason\s+to\s+(live|go\s+on)\b/
+    ],
+    signals: [
+      [/\bsuicid(e|al)\b/, 0.6],
+      [/\bself[\s-]?harm\b/, 0.6],
+      [/\b(how|ways|best\s+way)\s+to\s+(commit|do\s+it|kill)\b|\bpainless\b|\bmethods?\s+of\s+(suicide|killing)\b/, 0.5],
+      [/\bi\s*('?m|\s+am|\s+feel)\s+(so\s+)?(worthless|hopeless)\b/, 0.5]
+    ]
+  },
+  violence: {
+    terms: [
+      /\bhow\s+to\s+(make|build)\s+(a\s+|an\s+)?(bomb|explosive|pipe\s+bomb|gun|molotov)\b/,
+      /\b(kill|stab|shoot|beat\s+up)\s+(my|the|our)\s+(teacher|classmates?|principal|friend|brother|sister|parents?)\b/,
+      /\bshoot\s+up\s+(the|my|a|our)\s+school\b/,
+      /\bi\s+(want|am\s+going|'m\s+going|will)\s+to\s+(kill|hurt|stab|shoot)\b/
+    ],
+    signals: [
+      [/\b(bomb|explosives?|gun|knife|weapon)\b/, 0.4],
+      [/\b(how\s+to|step\s+by\s+step|instructions\s+for)\s+(make|build|get|buy)\b/, 0.4],
+      [/\b(at|in|to)\s+(school|class)\b/, 0.3]
+    ]
+  },
+  sexual: {
+    terms: [
+      /\bporn(ography|ographic)?\b/,
+      /\bnudes\b|\b(send|sending|get)\s+nudes?\b/,
+      /\bnaked\s+(photos?|pics?|pictures?|girls?|boys?)\b/,
+      /\b(nsfw|xxx|hentai|sexting|onlyfans)\b/,
+      /\bsex\s+(video|tape|chat|story)\b/
+    ],
+    signals: [
+      [/\bsexy\b/, 0.5],
+      [/\b(erotic|explicit)\b/, 0.5],
+      [/\b(hook\s?up|make\s+out)\b/, 0.4]
+    ]
+  },
+  hate: {
+    terms: [
+      /\bracist\s+jokes?\b/,
+      /\b(inferior|subhuman)\s+(race|races|people)\b/,
+      /\b(all|those)\s+\w+\s+(should|must|deserve\s+to)\s+(die|be\s+killed|be\s+exterminated)\b/
+    ],
+    signals: [
+      [/\b(hate|despise)\s+(all\s+)?(immigrants|muslims|jews|christians|hindus|sikhs|gays|black\s+people|white\s+people)\b/, 0.7],
+      [/\b(jokes?|insults?|memes?)\s+(about|on)\s+(immigrants|muslims|jews|christians|hindus|sikhs|gays|black\s+people)\b/, 0.6],
+      [/\bwhy\s+\w+\s+are\s+(stupid|inferior|evil)\b/, 0.5]
+    ]
+  },
+  drugs: {
+    terms: [
+      /\b(buy|sell|make|cook|grow)\s+(weed|cocaine|meth|heroin|lsd|mdma|ecstasy|drugs)\b/,
+      /\bhow\s+to\s+get\s+(high|drunk|stoned|wasted)\b/,
+      /\bhide\s+(vapes?|weed|drugs|alcohol)\s+from\s+(my\s+)?(parents|teachers?)\b/
+    ],
+    signals: [
+      [/\b(weed|cocaine|meth|heroin|lsd|mdma|ecstasy|vape)\b/, 0.5],
+      [/\b(where\s+to\s+(buy|get)|how\s+to\s+(use|take|smoke))\b/, 0.5]
+    ]
+  },
+  profanity: {
+    terms: [
+      /\bf+u+c+k\w*/,
+      /\bmotherf\w*/,
+      /\bsh[i!]+t\w*/,
+      /\bbitch\w*/,
+      /\b(asshole|bastard|cunt|wanker|bullshit)s?\b/
+    ],
+    signals: []
+  }
+};
+
+const CATEGORIES = Object.keys(CATEGORY_RULES) as Array<Exclude<ModerationCategory, 'custom'>>;
+
+const ACTION_ORDER: Record<ModerationAction, number> = { allow: 0, rewrite: 1, block: 2 };
+
+// Harmful categories are blocked outright; swearing is masked so the request can go ahead
+export const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  actions: {
+    self_harm: 'block',
+    violence: 'block',
+    sexual: 'block',
+    hate: 'block',
+    drugs: 'block',
+    profanity: 'rewrite',
+    custom: 'block'
+  },
+  blockedTerms: [],
+  allowedTerms: []
+};
+
+// Digits and symbols students use to dodge word lists. One character maps to one
+// character, so match positions still line up with the original text.
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+function normalizeForMatching(text: string, allowedTerms: string[]): string {
+  let normalized = text.toLowerCase().replace(/[013457@$]/g, char => LOOKALIKES[char]);
+  for (const term of allowedTerms) {
+    const allowed = term.toLowerCase().trim();
+    if (!allowed) continue;
+    // Blank out allowed phrases with spaces of the same length
+    normalized = normalized.split(allowed).join(' '.repeat(allowed.length));
+  }
+  return normalized;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termPattern(term: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(term.toLowerCase().trim()).replace(/\s+/g, '\\s+')}\\b`);
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, 'g');
+}
+
+// Keeps the first letter so the sentence still reads naturally, e.g. "f***"
+function mask(match: string): string {
+  return match.replace(/\S+/g, word => word[0] + '*'.repeat(Math.max(word.length - 1, 2)));
+}
+
+/**
+ * Returns the categories the text falls into, with the regions that caused
+ * each flag (start/end offsets into the original text).
+ */
+export function classifyContent(
+  text: string,
+  policy: ModerationPolicy = DEFAULT_MODERATION_POLICY
+): Array<{ category: ModerationCategory; spans: Array<[number, number]> }> {
+  const normalized = normalizeForMatching(text, policy.allowedTerms);
+  const spansOf = (pattern: RegExp) => [...normalized.matchAll(globalPattern(pattern))]
+    .map(match => [match.index!, match.index! + match[0].length] as [number, number]);
+
+  const results: Array<{ category: ModerationCategory; spans: Array<[number, number]> }> = [];
+  for (const category of CATEGORIES) {
+    const rules = CATEGORY_RULES[category];
+    const termSpans = rules.terms.flatMap(spansOf);
+    const signalMatches = rules.signals
+      .map(([pattern, weight]) => ({ weight, spans: spansOf(pattern) }))
+      .filter(signal => signal.spans.length > 0);
+    const score = signalMatches.reduce((sum, signal) => sum + signal.weight, 0);
+
+    if (termSpans.length > 0 || score >= 1) {
+      results.push({ category, spans: [...termSpans, ...(score >= 1 ? signalMatches.flatMap(s => s.spans) : [])] });
+    }
+  }
+
+  const customSpans = policy.blockedTerms.filter(term => term.trim()).flatMap(term => spansOf(termPattern(term)));
+  if (customSpans.length > 0) results.push({ category: 'custom', spans: customSpans });
+
+  return results;
+}
+
+/** Classifies the text and applies the policy's strictest action for what was found. */
+export function moderateText(text: string, policy: ModerationPolicy = DEFAULT_MODERATION_POLICY): ModerationResult {
+  const flagged = classifyContent(text, policy).filter(result => policy.actions[result.category] !== 'allow');
+  if (flagged.length === 0) return { flagged: false, action: 'allow', categories: [], text };
+
+  const action = flagged
+    .map(result => policy.actions[result.category])
+    .reduce((strictest, current) => ACTION_ORDER[current] > ACTION_ORDER[strictest] ? current : strictest);
+
+  let rewritten = text;
+  if (action === 'rewrite') {
+    // Right to left, so earlier offsets stay valid
+    const spans = flagged.flatMap(result => result.spans).sort((a, b) => b[0] - a[0]);
+    let lastStart = Infinity;
+    for (const [start, end] of spans) {
+      if (end > lastStart) continue;
+      rewritten = rewritten.slice(0, start) + mask(rewritten.slice(start, end)) + rewritten.slice(end);
+      lastStart = start;
+    }
+  }
+  return { flagged: true, action, categories: flagged.map(result => result.category), text: rewritten };
+}
+
+// --- Per-school configuration ---
+// MODERATION_CONFIG points at a JSON file:
+//   { "default": { ...partial policy }, "schools": { "<school id>": { ...partial policy } } }
+// A school's settings are layered over "default", which is layered over the built-in policy.
+
+type PartialPolicy = Partial<Omit<ModerationPolicy, 'actions'>> & { actions?: Partial<Record<ModerationCategory, ModerationAction>> };
+
+interface ModerationConfig {
+  default?: PartialPolicy;
+  schools?: Record<string, PartialPolicy>;
+}
+
+let config: ModerationConfig | null = null;
+
+function loadConfig(): ModerationConfig {
+  if (config) return config;
+  const file = process.env.MODERATION_CONFIG;
+  config = {};
+  if (file) {
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf8'));
+      logger.info('moderation_config_loaded', { file, schools: Object.keys(config?.schools ?? {}).length });
+    } catch (error) {
+      // Fail closed to the built-in policy rather than running without moderation
+      logger.error('moderation_config_invalid', { file, error });
+    }
+  }
+  return config!;
+}
+
+function mergePolicy(base: ModerationPolicy, override: PartialPolicy | undefined): ModerationPolicy {
+  if (!override) return base;
+  const actions = { ...base.actions };
+  for (const [category, action] of Object.entries(override.actions ?? {})) {
+    if (category in actions && String(action) in ACTION_ORDER) actions[category as ModerationCategory] = action;
+  }
+  return {
+    actions,
+    blockedTerms: [...base.blockedTerms, ...(override.blockedTerms ?? [])],
+    allowedTerms: [...base.allowedTerms, ...(override.allowedTerms ?? [])]
+  };
+}
+
+// The strictest setting of every school: each category's strictest action and
+// every school's blocked terms, with only the default allowed terms
+function strictestPolicy(base: ModerationPolicy, schools: Record<string, PartialPolicy>): ModerationPolicy {
+  return Object.values(schools).reduce<ModerationPolicy>((strictest, override) => {
+    const school = mergePolicy(base, override);
+    const actions = { ...strictest.actions };
+    for (const category of Object.keys(actions) as ModerationCategory[]) {
+      if (ACTION_ORDER[school.actions[category]] > ACTION_ORDER[actions[category]]) actions[category] = school.actions[category];
+    }
+    return { actions, blockedTerms: [...strictest.blockedTerms, ...(override.blockedTerms ?? [])], allowedTerms: strictest.allowedTerms };
+  }, base);
+}
+
+/**
+ * The school a request is moderated as. MODERATION_SCHOOL_ID fixes it for the
+ * whole deployment. Otherwise the school the client names (which a student can
+ * change) is used only when the config lists it.
+ */
+export function resolveModerationSchool(requested?: string): string | undefined {
+  const configured = process.env.MODERATION_SCHOOL_ID?.trim();
+  if (configured) return configured;
+  const { schools = {} } = loadConfig();
+  return requested && Object.prototype.hasOwnProperty.call(schools, requested) ? requested : undefined;
+}
+
+/**
+ * Policy for a school resolved by resolveModerationSchool. Without one, the
+ * strictest policy of any configured school applies, so leaving out or faking
+ * the school never loosens moderation.
+ */
+export function getModerationPolicy(schoolId?: string): ModerationPolicy {
+  const { default: defaults, schools = {} } = loadConfig();
+  const policy = mergePolicy(DEFAULT_MODERATION_POLICY, defaults);
+  return schoolId ? mergePolicy(policy, schools[schoolId]) : strictestPolicy(policy, schools);
+}
+
+// --- Review log ---
+// Recent events are kept in memory for the teacher review endpoint. With
+// MODERATION_LOG_FILE set they are also appended to a JSON-lines file (which
+// holds student text excerpts, so store it accordingly) and reloaded on start.
+
+const EXCERPT_CHARS = 200;
+
+function eventLimit(): number {
+  return Number(process.env.MODERATION_EVENT_LIMIT) || 500;
+}
+
+let events: ModerationEvent[] | null = null;
+
+function loadEvents(): ModerationEvent[] {
+  if (events) return events;
+  events = [];
+  const file = process.env.MODERATION_LOG_FILE;
+  if (file && fs.existsSync(file)) {
+    try {
+      events = fs.readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .slice(-eventLimit())
+        .map(line => JSON.parse(line));
+    } catch (error) {
+      logger.error('moderation_log_read_failed', { file, error });
+    }
+  }
+  return events;
+}
+
+export function recordModerationEvent(event: Omit<ModerationEvent, 'time' | 'excerpt'> & { text: string }): void {
+  const { text, ...rest } = event;
+  const entry: ModerationEvent = { time: new Date().toISOString(), ...rest, excerpt: text.slice(0, EXCERPT_CHARS) };
+
+  const list = loadEvents();
+  list.push(entry);
+  if (list.length > eventLimit()) list.splice(0, list.length - eventLimit());
+
+  // Categories and action only; the excerpt stays out of the request logs
+  logger.warn('moderation_flagged', {
+    requestId: entry.requestId,
+    schoolId: entry.schoolId,
+    direction: entry.direction,
+    field: entry.field,
+    categories: entry.categories,
+    action: entry.action
+  });
+
+  const file = process.env.MODERATION_LOG_FILE;
+  if (file) {
+    fs.promises.mkdir(path.dirname(file), { recursive: true })
+      .then(() => fs.promises.appendFile(file, JSON.stringify(entry) + '\n'))
+      .catch(error => logger.error('moderation_log_write_failed', { file, error }));
+  }
+}
+
+/** Most recent events first, optionally for one school only. */
+export function listModerationEvents(options: { schoolId?: string; limit?: number } = {}): ModerationEvent[] {
+  return loadEvents()
+    .filter(event => !options.schoolId || event.schoolId === options.schoolId)
+    .slice(-(options.limit ?? 100))
+    .reverse();
+}
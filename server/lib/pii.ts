@@ -0,0 +1,171 @@
+import type { PiiKind, PiiRedaction } from '../../shared/pii';
+
+export type { PiiKind, PiiRedaction } from '../../shared/pii';
+
+// --- PII redaction ---
+// Names, school names, emails, Indian phone numbers and Aadhaar-like IDs are
+// replaced with numbered placeholders ([NAME_1], [PHONE_1], ...) before student
+// text is cached or sent to the model. Names and schools are put back into the
+// response, where they make the improved prompt usable; contact details and IDs
+// are not, since students should not be pasting them into AI tools at all.
+
+const PLACEHOLDER_LABELS: Record<PiiKind, string> = {
+  name: 'NAME',
+  school: 'SCHOOL',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  id: 'ID'
+};
+
+const RESTORED_KINDS = new Set<PiiKind>(['name', 'school']);
+
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(\.[\w-]+)+\b/g;
+
+// Mobile numbers with an optional +91 / 91 / 0 prefix, e.g. +91 98765 43210, 098765-43210
+const PHONE_PATTERN = /(?<![\w+])(\+?91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\d)/g;
+
+// 12 digits in groups of four, never starting with 0 or 1 (the Aadhaar format)
+const ID_PATTERN = /(?<!\d)[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}(?!\d)/g;
+
+// One to four capitalised words followed by a school-type word, e.g. "St. Mary's Convent School"
+const SCHOOL_PATTERN = /\b((?:[A-Z][\w.'’]*\s+){1,4})(School|Vidyalaya|Vidyalayam|Academy|Convent|Gurukul)\b/g;
+
+// Capitalised only because they start a sentence, so not part of the school's name
+const SENTENCE_WORDS = new Set(['In', 'At', 'The', 'My', 'Our', 'A', 'From', 'To', 'Of', 'For', 'About']);
+
+// Words that can precede "School" without naming a particular school
+const GENERIC_SCHOOL_WORDS = new Set([
+  'High', 'Higher', 'Secondary', 'Senior', 'Primary', 'Middle', 'Public', 'Private', 'Government', 'Boarding',
+  'International', 'Model', 'Sunday', 'Summer', 'Night', 'Elementary', 'Junior'
+]);
+
+// Phrases after which students usually write a person's name. "called" and
+// "named" are left out: "a process called Photosynthesis" is far more common.
+const NAME_CUE_PATTERN = /\b(my name is|my name's|i am|i'm|name\s*:|my (?:friend|brother|sister|teacher|classmate|cousin|son|daughter|mom|dad|mother|father)(?:'s name is| is)?|(?:mr|mrs|ms|miss|dr|shri|smt|sri)\.?)\s+([a-z][a-z]*(?:\s+[a-z][a-z]*){0,2})/gi;
+
+// Capitalised words that follow "I am" and friends without being names
+const NOT_NAMES = new Set([
+  'A', 'An', 'The', 'In', 'On', 'At', 'From', 'Not', 'So', 'Very', 'Also', 'Just', 'Still', 'Now', 'Here', 'Going', 'Trying',
+  'Learning', 'Studying', 'Writing', 'Doing', 'Working', 'Preparing', 'Confused', 'Stuck', 'Class', 'Grade', 'Student',
+  'Teacher', 'Indian', 'Hindi', 'English', 'Tamil', 'Bengali', 'Marathi', 'Telugu', 'Gujarati', 'Kannada', 'Malayalam',
+  'Punjabi', 'Urdu', 'Maths', 'Math', 'Science', 'Physics', 'Chemistry', 'Biology', 'History', 'Geography', 'Economics',
+  'CBSE', 'ICSE', 'Ready', 'Happy', 'Sure', 'Interested', 'Curious', 'Good', 'Bad', 'New', 'Bored'
+]);
+
+const PLACEHOLDER_PATTERN = /\[(NAME|SCHOOL|EMAIL|PHONE|ID)_\d+\]/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** True if the text contains a redaction placeholder (e.g. a generated tag built from redacted input). */
+export function containsPlaceholder(text: string): boolean {
+  return PLACEHOLDER_PATTERN.test(text);
+}
+
+// Leading capitalised words that are not on the NOT_NAMES list: "Priya Sharma and I" -> "Priya Sharma"
+function leadingName(words: string): string {
+  const name: string[] = [];
+  for (const word of words.split(/\s+/)) {
+    if (!/^[A-Z][a-z]+$/.test(word) || NOT_NAMES.has(word)) break;
+    name.push(word);
+  }
+  return name.join(' ');
+}
+
+/**
+ * Redacts the text of one request. The same value always gets the same
+ * placeholder, across every field passed to redact(), so a name typed in the
+ * topic and repeated in the intent stays one [NAME_n].
+ */
+export class PiiRedactor {
+  private readonly byValue = new Map<string, PiiRedaction>();
+  private readonly counts: Partial<Record<PiiKind, number>> = {};
+
+  get redactions(): PiiRedaction[] {
+    return [...this.byValue.values()];
+  }
+
+  redact(text: string): string {
+    let result = text
+      .replace(EMAIL_PATTERN, match => this.placeholderFor('email', match))
+      .replace(PHONE_PATTERN, match => this.placeholderFor('phone', match))
+      .replace(ID_PATTERN, match => {
+        // "2019 2020 2021" is a list of years, not an ID
+        const groups = match.split(/[\s-]/);
+        return groups.length === 3 && groups.every(group => /^(19|20)\d\d$/.test(group)) ? match : this.placeholderFor('id', match);
+      })
+      .replace(SCHOOL_PATTERN, (match, words: string, type: string) => {
+        const nameWords = words.trim().split(/\s+/);
+        while (nameWords.length > 0 && SENTENCE_WORDS.has(nameWords[0])) nameWords.shift();
+        if (!nameWords.some(word => !GENERIC_SCHOOL_WORDS.has(word))) return match;
+        const school = `${nameWords.join(' ')} ${type}`;
+        return match.replace(school, this.placeholderFor('school', school));
+      })
+      .replace(NAME_CUE_PATTERN, (match, cue: string, words: string) => {
+        const name = leadingName(words);
+        if (!name) return match;
+        // Students often go on to use just the first name
+        if (name.includes(' ')) this.placeholderFor('name', name.split(' ')[0]);
+        return match.replace(name, this.placeholderFor('name', name));
+      });
+
+    // Values found earlier (in this text or another field) wherever else they appear, longest first
+    const known = this.redactions.sort((a, b) => b.value.length - a.value.length);
+    for (const { value, placeholder } of known) {
+      result = result.replace(new RegExp(`(?<![\\w@])${escapeRegExp(value)}(?![\\w@])`, 'g'), placeholder);
+    }
+    return result;
+  }
+
+  /** Puts names and schools back; contact details and IDs keep their placeholder. */
+  restore(text: string): string {
+    return text.replace(new RegExp(PLACEHOLDER_PATTERN.source, 'g'), placeholder => {
+      const redaction = this.redactions.find(r => r.placeholder === placeholder);
+      return redaction && redaction.restored ? redaction.value : placeholder;
+    });
+  }
+
+  /**
+   * Every placeholder put back, contact details included, which gives the text
+   * exactly as the student typed it. Only for locating things in their own
+   * input; never for text sent to the model or logged.
+   */
+  unredact(text: string): string {
+    return text.replace(new RegExp(PLACEHOLDER_PATTERN.source, 'g'), placeholder =>
+      this.redactions.find(r => r.placeholder === placeholder)?.value ?? placeholder
+    );
+  }
+
+  /**
+   * restore() for text arriving in pieces: a placeholder cut in two by a chunk
+   * boundary is held back until the rest arrives. Call with `flush` for the last piece.
+   */
+  streamRestorer(): (chunk: string, flush?: boolean) => string {
+    let pending = '';
+    return (chunk, flush = false) => {
+      const text = pending + chunk;
+      const partial = flush ? null : text.match(/\[[A-Z]*_?\d*$/);
+      pending = partial ? partial[0] : '';
+      return this.restore(partial ? text.slice(0, partial.index) : text);
+    };
+  }
+
+  private placeholderFor(kind: PiiKind, value: string): string {
+    const existing = this.byValue.get(value);
+    if (existing) return existing.placeholder;
+    const count = (this.counts[kind] ?? 0) + 1;
+    this.counts[kind] = count;
+    const redaction: PiiRedaction = {
+      kind,
+      placeholder: `[${PLACEHOLDER_LABELS[kind]}_${count}]`,
+      value,
+      restored: RESTORED_KINDS.has(kind)
+    };
+    this.byValue.set(value, redaction);
+    return redaction.placeholder;
+  }
+}
+
+// Added to model prompts whenever something was redacted
+export const PII_PLACEHOLDER_NOTE = 'Placeholders such as [NAME_1] or [PHONE_1] stand for personal details that were removed for privacy. Keep them exactly as written where you need to refer to them, and never guess what they stand for.';
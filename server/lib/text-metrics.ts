@@ -0,0 +1,40 @@
+import type { TextMetrics } from '../../shared/text-metrics';
+
+export type { TextMetrics } from '../../shared/text-metrics';
+
+const HEADING_LINE = /^\s*(#{1,6}\s+\S|\*\*[^*]+\*\*:?\s*$)/;
+const LIST_LINE = /^\s*([-*•]|\d+[.)])\s+\S/;
+
+// Vowel groups, less a silent final "e"; close enough for a reading-level estimate
+function syllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/** Length, reading level and structure of a model answer (plain text or light markdown). */
+export function measureText(text: string): TextMetrics {
+  const lines = text.split('\n');
+  const plain = text.replace(/[#*_`>|]/g, ' ');
+  const words = plain.split(/\s+/).filter(word => /[a-z0-9]/i.test(word));
+  // List items and headings rarely end with a full stop but still read as sentences
+  const sentenceEnds = (plain.match(/[.!?]+(\s|$)/g) ?? []).length;
+  const unpunctuatedLines = lines.filter(line => (HEADING_LINE.test(line) || LIST_LINE.test(line)) && !/[.!?]\s*$/.test(line)).length;
+  const sentences = Math.max(words.length > 0 ? 1 : 0, sentenceEnds + unpunctuatedLines);
+
+  const syllableCount = words.reduce((sum, word) => sum + syllables(word), 0);
+  const readingGrade = words.length === 0
+    ? 0
+    : 0.39 * (words.length / sentences) + 11.8 * (syllableCount / words.length) - 15.59;
+
+  return {
+    words: words.length,
+    sentences,
+    readingGrade: Math.max(0, Math.round(readingGrade * 10) / 10),
+    paragraphs: text.split(/\n\s*\n/).filter(block => block.trim()).length,
+    headings: lines.filter(line => HEADING_LINE.test(line)).length,
+    listItems: lines.filter(line => LIST_LINE.test(line)).length
+  };
+}
@@ -0,0 +1,135 @@
+import { NextFunction, Request, Response } from 'express';
+import type { JsonSchema } from '../llm/types';
+import { ApiError, FieldIssue, sendError } from './errors';
+
+// --- Declarative validation ---
+// Request bodies and model output are both described with the same JsonSchema
+// type the providers use for structured output, and checked by validateJson.
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object': return describeType(value) === 'object';
+    case 'array': return Array.isArray(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === schema.type;
+  }
+}
+
+/** Returns every problem found in `value`; an empty list means it is valid. */
+export function validateJson(schema: JsonSchema, value: unknown, path = ''): FieldIssue[] {
+  const at = path || '(root)';
+
+  if (!matchesType(schema, value)) {
+    return [{ path: at, message: `must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${describeType(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [{ path: at, message: `must be one of: ${schema.enum.join(', ')}` }];
+  }
+
+  const issues: FieldIssue[] = [];
+  switch (schema.type) {
+    case 'object': {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: 'is required' });
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        // Optional fields may be absent or null
+        if (record[key] === undefined || record[key] === null) continue;
+        issues.push(...validateJson(child, record[key], path ? `${path}.${key}` : key));
+      }
+      break;
+    }
+    case 'array': {
+      const list = value as unknown[];
+      if (schema.minItems !== undefined && list.length < schema.minItems) {
+        issues.push({ path: at, message: `must have at least ${schema.minItems} items` });
+      }
+      if (schema.maxItems !== undefined && list.length > schema.maxItems) {
+        issues.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+      }
+      if (schema.items) {
+        list.forEach((item, index) => issues.push(...validateJson(schema.items as JsonSchema, item, `${path}[${index}]`)));
+      }
+      break;
+    }
+    case 'string': {
+      const text = value as string;
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        issues.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+        issues.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+        issues.push({ path: at, message: schema.pattern === '\\S' ? 'must not be blank' : `must match ${schema.pattern}` });
+      }
+      break;
+    }
+    case 'number': {
+      const number = value as number;
+      if (schema.minimum !== undefined && number < schema.minimum) {
+        issues.push({ path: at, message: `must be at least ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && number > schema.maximum) {
+        issues.push({ path: at, message: `must be at most ${schema.maximum}` });
+      }
+      break;
+    }
+  }
+  return issues;
+}
+
+/**
+ * Best-effort, lossless fixes for common model slips before validation:
+ * numeric strings become numbers, numbers are clamped to their range,
+ * strings are trimmed, a lone value where an array is expected is wrapped,
+ * and arrays are cut to maxItems. Anything else is left for validateJson to report.
+ */
+export function repairJson(schema: JsonSchema, value: unknown): unknown {
+  if (value === undefined || value === null) return value;
+
+  switch (schema.type) {
+    case 'object': {
+      if (describeType(value) !== 'object') return value;
+      const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (key in result) result[key] = repairJson(child, result[key]);
+      }
+      return result;
+    }
+    case 'array': {
+      let list = Array.isArray(value) ? value : [value];
+      if (schema.items) list = list.map(item => repairJson(schema.items as JsonSchema, item));
+      return schema.maxItems !== undefined ? list.slice(0, schema.maxItems) : list;
+    }
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return value;
+      return Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, number));
+    }
+    case 'string':
+      return typeof value === 'string' ? value.trim() : value;
+    default:
+      return value;
+  }
+}
+
+/** Express middleware answering 400 VALIDATION_FAILED with field-level issues. */
+export function validateBody(schema: JsonSchema) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues = validateJson(schema, req.body ?? {});
+    if (issues.length > 0) {
+      return sendError(res, new ApiError('VALIDATION_FAILED', { message: 'The request body is invalid.', issues }));
+    }
+    next();
+  };
+}
@@ -0,0 +1,61 @@
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import { GenerateJsonRequest, JsonSchema, LlmProvider } from './types';
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+function toGeminiSchema(schema: JsonSchema): Schema {
+  const result: Schema = { type: TYPE_MAP[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    // Gemini orders keys alphabetically by default; keep declaration order so streamed fields arrive predictably
+    result.propertyOrdering = Object.keys(schema.properties);
+  }
+  return result;
+}
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+  private readonly client: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string, timeoutMs: number) {
+    // The SDK aborts the request, including a stream still being read, after timeoutMs
+    this.client = new GoogleGenAI({ apiKey, httpOptions: { timeout: timeoutMs } });
+  }
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    const response = await this.client.models.generateContent(this.buildParams(request));
+    return (response.text || '').trim();
+  }
+
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    const stream = await this.client.models.generateContentStream(this.buildParams(request));
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  private buildParams(request: GenerateJsonRequest) {
+    return {
+      model: this.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+        temperature: request.temperature,
+        ...(request.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: request.thinkingBudget } })
+      }
+    };
+  }
+}
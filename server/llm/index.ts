@@ -0,0 +1,87 @@
+import { logger } from '../lib/logger';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { LlmProvider } from './types';
+
+export * from './types';
+export { generateStructured, readModelOutput } from './structured';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+// A whole model call, streamed or not, is abandoned after this long
+const DEFAULT_LLM_TIMEOUT_MS = 120_000;
+
+function llmTimeoutMs(): number {
+  const value = Number(process.env.LLM_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_LLM_TIMEOUT_MS;
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER (gemini | openai | mock).
+ * Returns null when the selected provider is missing required configuration,
+ * so routes can fall back the same way they do without an API key.
+ *
+ *   LLM_PROVIDER=gemini  GEMINI_API_SECRET=...         [LLM_MODEL=gemini-2.5-flash]
+ *   LLM_PROVIDER=openai  OPENAI_BASE_URL=http://localhost:11434/v1  LLM_MODEL=llama3.1  [OPENAI_API_KEY=...]
+ *   LLM_PROVIDER=mock
+ *
+ * LLM_TIMEOUT_MS (default 120000) limits each model call for both real providers.
+ *
+ * MOCK_LLM=true overrides all of the above, for offline development and tests.
+ */
+function createProvider(): LlmProvider | null {
+  if (isMockMode()) {
+    return new MockProvider();
+  }
+
+  const providerName = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  const model = process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'mock':
+      return new MockProvider();
+
+    case 'openai': {
+      const baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!model) {
+        logger.error('llm_not_configured', { provider: 'openai', missing: 'LLM_MODEL' });
+        return null;
+      }
+      if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+        logger.error('llm_not_configured', { provider: 'openai', missing: 'OPENAI_API_KEY' });
+        return null;
+      }
+      return new OpenAICompatibleProvider(baseUrl, model, apiKey, llmTimeoutMs());
+    }
+
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_SECRET;
+      if (!apiKey) {
+        logger.error('llm_not_configured', { provider: 'gemini', missing: 'GEMINI_API_SECRET' });
+        return null;
+      }
+      return new GeminiProvider(apiKey, model || DEFAULT_GEMINI_MODEL, llmTimeoutMs());
+    }
+
+    default:
+      logger.error('llm_not_configured', { provider: providerName, reason: 'unknown provider, expected gemini, openai or mock' });
+      return null;
+  }
+}
+
+export function isMockMode(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.MOCK_LLM || '').toLowerCase());
+}
+
+let provider: LlmProvider | null | undefined;
+
+// Shared by every route so they all talk to the same configured backend
+export function getLlmProvider(): LlmProvider | null {
+  if (provider === undefined) {
+    provider = createProvider();
+    if (provider) logger.info('llm_provider_selected', { provider: provider.name, model: provider.model, mockMode: isMockMode() });
+  }
+  return provider;
+}
@@ -0,0 +1,128 @@
+import { scorePrompt } from '../../shared/prompt-scorer';
+
+// Hand-written, task-aware responses for MOCK_LLM mode. Every value is derived
+// from the request input, so the same request always gets the same answer and
+// different prompts get meaningfully different scores.
+
+function pick<T>(list: T[], seed: number, count: number): T[] {
+  const result: T[] = [];
+  for (let i = 0; i < list.length && result.length < count; i++) {
+    result.push(list[(seed + i * 7) % list.length]);
+  }
+  return [...new Set(result)];
+}
+
+function seedOf(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return h;
+}
+
+function titleWord(topic: string): string {
+  const word = (topic.match(/[A-Za-z]{3,}/g) || ['Topic'])[0];
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+// --- tag generation ---
+
+const TAG_TEMPLATES: Record<string, string[]> = {
+  personaStyle: ['Act As Friendly Teacher', 'Be Strict Exam Coach', 'Act As Curious Guide', 'Be Patient Subject Tutor'],
+  addContext: ['Follow CBSE Exam Style', 'Use Class Level Words', 'Add Indian Daily Examples', 'Mention Prior Chapter Links'],
+  taskInstruction: ['Explain {T} Key Ideas', 'Generate {T} Practice Questions', 'Summarize {T} Main Points', 'List {T} Common Mistakes'],
+  formatConstraints: ['Give Bullet Point Notes', 'Make Short Revision Notes', 'Use Simple Comparison Table', 'Add Numbered Step List'],
+  reasoningHelp: ['Explain Step By Step', 'Add Simple Analogy', 'Show Worked Example', 'Ask Check Questions'],
+};
+
+function mockSmartTags(input: Record<string, any>) {
+  const topic = String(input.topic || '');
+  const stage = Number(input.stage) || 1;
+  const word = titleWord(topic);
+  const seed = seedOf(`${topic}:${input.intent}:${input.persona}:${stage}`);
+  const perCategory = stage === 1 ? 1 : 2;
+
+  const groups: Record<string, string[]> = {};
+  Object.entries(TAG_TEMPLATES).forEach(([category, templates], i) => {
+    groups[category] = pick(templates, seed + i, perCategory).map(t => t.replace('{T}', word));
+  });
+  return groups;
+}
+
+// A different pick each time the shown tags change, never repeating one of them
+function mockCategoryTags(input: Record<string, any>) {
+  const word = titleWord(String(input.topic || ''));
+  const existing: string[] = (input.existingTags || []).map((t: string) => t.toLowerCase());
+  const templates = (TAG_TEMPLATES[input.category] || []).map(t => t.replace('{T}', word));
+  const available = templates.filter(t => !existing.includes(t.toLowerCase()));
+  return { tags: pick(available, seedOf(`${input.topic}:${existing.join(',')}`), Number(input.count) || 3) };
+}
+
+function mockFlatTags(input: Record<string, any>) {
+  const groups = mockSmartTags(input);
+  return { tags: Object.values(groups).flat().slice(0, 5) };
+}
+
+// --- output suggestions ---
+
+const OUTPUT_FORMATS = [
+  'Numbered list format', 'Table with columns', 'Question answer pairs', 'Flashcards with answers',
+  'Mind map outline', 'Short story format', 'Timeline of events', 'Fill in blanks'
+];
+
+function mockOutputSuggestions(input: Record<string, any>) {
+  const existing: string[] = (input.selectedOutputTags || []).map((t: string) => t.toLowerCase());
+  const seed = seedOf(`${input.topic}:${input.intent}:${input.persona}`);
+  const available = OUTPUT_FORMATS.filter(f => !existing.includes(f.toLowerCase()));
+  return { suggestions: pick(available, seed, 3) };
+}
+
+// --- "try it" answers ---
+
+// A short answer for a bare prompt and a structured one when the prompt asks for
+// structure, so the comparison shows a difference without a model
+function mockTryItAnswer(input: Record<string, any>) {
+  const prompt = String(input.prompt || '');
+  // The word after the task verb, e.g. "explain photosynthesis in 5 points" -> "Photosynthesis"
+  const topic = titleWord(prompt.match(/\b(?:explain|describe|about|what is|summari[sz]e)\s+(?:the\s+)?(.*)/i)?.[1] ?? prompt);
+  const points = [
+    `${topic} is easiest to understand by starting with what it does.`,
+    `The key parts of ${topic.toLowerCase()} work together in a fixed order.`,
+    `Small changes in one part affect the result of the whole process.`
+  ];
+  const lines: string[] = [];
+  if (/\b(act as|you are|teacher|tutor)\b/i.test(prompt)) lines.push(`## ${topic}: a quick lesson`, '');
+  if (/\b(bullet|list|steps?|points?)\b/i.test(prompt)) {
+    lines.push(...points.map(point => `- ${point}`));
+  } else {
+    lines.push(points.join(' '));
+  }
+  if (/\b(example|analogy)\b/i.test(prompt)) {
+    lines.push('', `For example, think of ${topic.toLowerCase()} like a kitchen, where each step has to finish before the next one starts.`);
+  }
+  return { answer: lines.join('\n') };
+}
+
+/**
+ * Returns a canned response for a known task, or null so the caller can fall
+ * back to a generic schema-shaped value.
+ */
+export function mockResponseFor(task: string, input: Record<string, any> = {}): object | null {
+  switch (task) {
+    case 'analyze':
+      // The same rubric the /analyze fallback uses
+      return scorePrompt(String(input.studentPrompt || ''));
+    case 'tags':
+      return mockFlatTags(input);
+    case 'smart-tags':
+      return mockSmartTags(input);
+    case 'category-tags':
+      return mockCategoryTags(input);
+    case 'output-suggestions':
+      return mockOutputSuggestions(input);
+    case 'try-it':
+      return mockTryItAnswer(input);
+    default:
+      return null;
+  }
+}
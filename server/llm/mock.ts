@@ -0,0 +1,75 @@
+import { mockResponseFor } from './mock-fixtures';
+import { GenerateJsonRequest, JsonSchema, LlmProvider } from './types';
+
+// Small, stable string hash (FNV-1a) so the same prompt always yields the same output
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const MOCK_CHUNK_SIZE = 16;
+const MOCK_CHUNK_DELAY_MS = 15;
+
+const MOCK_WORDS = ['Explain', 'Key', 'Concepts', 'Using', 'Simple', 'Examples', 'Step', 'By', 'Clear', 'Points'];
+
+/**
+ * Produces schema-valid JSON without calling any model. Known tasks get
+ * realistic fixtures (see mock-fixtures.ts); anything else gets values derived
+ * from a hash of the prompt. Either way the output is repeatable across runs.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock' as const;
+  readonly model = 'mock';
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    const fixture = mockResponseFor(request.task, request.input);
+    if (fixture) {
+      return JSON.stringify(fixture);
+    }
+    const seed = hash(`${request.task}:${request.prompt}`);
+    return JSON.stringify(this.fill(request.schema, seed, request.task));
+  }
+
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    const text = await this.generateJson(request);
+    // Small fixed-size chunks with a short pause, to look like a real token stream
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      yield text.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  }
+
+  private fill(schema: JsonSchema, seed: number, path: string): any {
+    if (schema.enum?.length) {
+      return schema.enum[seed % schema.enum.length];
+    }
+    switch (schema.type) {
+      case 'object': {
+        const result: Record<string, any> = {};
+        for (const [key, child] of Object.entries(schema.properties || {})) {
+          result[key] = this.fill(child, hash(`${seed}:${key}`), key);
+        }
+        return result;
+      }
+      case 'array':
+        return schema.items
+          ? [0, 1, 2].map(i => this.fill(schema.items as JsonSchema, hash(`${seed}:${i}`), path))
+          : [];
+      case 'number': {
+        const min = schema.minimum ?? 0;
+        const max = schema.maximum ?? 100;
+        return min + seed % (max - min + 1);
+      }
+      case 'boolean':
+        return seed % 2 === 0;
+      case 'string': {
+        const words = [0, 1, 2].map(i => MOCK_WORDS[(seed >>> (i * 4)) % MOCK_WORDS.length]);
+        return `${words.join(' ')} ${path}`.trim();
+      }
+    }
+  }
+}
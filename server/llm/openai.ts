@@ -0,0 +1,95 @@
+import { GenerateJsonRequest, LlmProvider, LlmProviderError } from './types';
+
+/**
+ * Talks to any server exposing the OpenAI Chat Completions API:
+ * OpenAI itself, Azure-style gateways, or a self-hosted Ollama / llama.cpp server.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string,
+    private readonly timeoutMs?: number
+  ) {}
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data: any = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmProviderError('OpenAI-compatible API returned no message content');
+    }
+    return content.trim();
+  }
+
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LlmProviderError('OpenAI-compatible API returned an empty stream');
+    }
+
+    // Server-Sent Events: "data: {json}" lines, terminated by "data: [DONE]"
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+        let chunk: any;
+        try {
+          chunk = JSON.parse(payload);
+        } catch {
+          // Keep-alive or malformed chunk; the rest of the stream is still usable
+          continue;
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) yield delta;
+      }
+    }
+  }
+
+  private async post(request: GenerateJsonRequest, stream: boolean): Promise<globalThis.Response> {
+    const endpoint = `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    let response: globalThis.Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        // Covers reading a streamed body too, as the Gemini SDK's timeout does
+        ...(this.timeoutMs && { signal: AbortSignal.timeout(this.timeoutMs) }),
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: request.temperature,
+          stream,
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            { role: 'user', content: request.prompt }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.task.replace(/[^\w-]/g, '_'), schema: request.schema }
+          }
+        })
+      });
+    } catch (error: any) {
+      // fetch wraps socket errors; surface the underlying code (ECONNREFUSED etc.)
+      const code = error?.name === 'TimeoutError' ? 'ETIMEDOUT' : error?.cause?.code || error?.code;
+      throw new LlmProviderError(`Unable to reach ${endpoint}: ${error?.message || 'network error'}`, undefined, code);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LlmProviderError(`OpenAI-compatible API returned ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+    return response;
+  }
+}
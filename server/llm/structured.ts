@@ -0,0 +1,84 @@
+import { ApiError, FieldIssue } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { repairJson, validateJson } from '../lib/validation';
+import { GenerateJsonRequest, JsonSchema, LlmProvider } from './types';
+
+const isDevelopment = process.env.NODE_ENV !== 'production';
+
+// One retry is usually enough: the second attempt is told exactly what was wrong
+const MAX_ATTEMPTS = 2;
+
+type ModelOutputCheck<T> = { value: T; issues?: undefined } | { value?: undefined; issues: FieldIssue[] };
+
+// Models occasionally wrap JSON in markdown fences or add a sentence around it
+function parseModelJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start >= 0 && end > start) return JSON.parse(trimmed.slice(start, end + 1));
+    throw error;
+  }
+}
+
+function checkModelOutput<T>(schema: JsonSchema, text: string, normalize?: (value: any) => T): ModelOutputCheck<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(text);
+  } catch {
+    return { issues: [{ path: '(root)', message: 'is not valid JSON' }] };
+  }
+  const repaired = repairJson(schema, parsed);
+  const value = normalize ? normalize(repaired) : repaired as T;
+  const issues = validateJson(schema, value);
+  return issues.length > 0 ? { issues } : { value };
+}
+
+function invalidOutputError(issues: FieldIssue[]): ApiError {
+  return new ApiError('MODEL_RESPONSE_INVALID', isDevelopment ? { details: { issues } } : {});
+}
+
+/**
+ * Parses, repairs and validates a complete model reply against the request schema.
+ * `normalize` runs after the generic repair, for route-specific defaults.
+ * Throws MODEL_RESPONSE_INVALID if the reply still does not match.
+ */
+export function readModelOutput<T>(schema: JsonSchema, text: string, normalize?: (value: any) => T): T {
+  const result = checkModelOutput(schema, text, normalize);
+  if (result.issues) throw invalidOutputError(result.issues);
+  return result.value;
+}
+
+/**
+ * generateJson plus validation: an invalid reply is retried once with the
+ * problems appended to the prompt, then reported as MODEL_RESPONSE_INVALID.
+ */
+export async function generateStructured<T>(
+  provider: LlmProvider,
+  request: GenerateJsonRequest,
+  options: { normalize?: (value: any) => T; requestId?: string } = {}
+): Promise<T> {
+  let issues: FieldIssue[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const prompt = attempt === 1
+      ? request.prompt
+      : `${request.prompt}\n\nYour previous reply was rejected: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}. Reply again with only a JSON object that matches the schema.`;
+    const text = await provider.generateJson({ ...request, prompt });
+
+    const result = checkModelOutput(request.schema, text, options.normalize);
+    if (!result.issues) return result.value;
+
+    issues = result.issues;
+    logger.warn('model_output_invalid', {
+      requestId: options.requestId,
+      task: request.task,
+      model: provider.model,
+      attempt,
+      issues: issues.slice(0, 5)
+    });
+  }
+  throw invalidOutputError(issues);
+}
@@ -0,0 +1,51 @@
+// Provider-neutral description of the JSON object we expect back from a model.
+// Each provider translates this into its own structured-output format.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  // Validation-only keywords, checked by server/lib/validation.ts. Providers may
+  // ignore them, so model output is always validated after it arrives.
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  // Regular expression the string must match (e.g. '\\S' for "not blank")
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface GenerateJsonRequest {
+  // Short name of the calling feature (e.g. 'analyze', 'smart-tags'), used for logs and mocks
+  task: string;
+  systemInstruction: string;
+  prompt: string;
+  schema: JsonSchema;
+  // Structured values the prompt was built from, so the mock provider can answer without parsing prose
+  input?: Record<string, any>;
+  temperature?: number;
+  // Gemini 2.5 only: 0 disables "thinking" for faster responses
+  thinkingBudget?: number;
+}
+
+export interface LlmProvider {
+  readonly name: 'gemini' | 'openai' | 'mock';
+  readonly model: string;
+  // Resolves with the raw JSON text produced by the model
+  generateJson(request: GenerateJsonRequest): Promise<string>;
+  // Yields the same JSON text in chunks as the model produces it
+  streamJson(request: GenerateJsonRequest): AsyncIterable<string>;
+}
+
+// Thrown by providers so routes can inspect HTTP status / network codes
+// the same way regardless of which backend produced the error.
+export class LlmProviderError extends Error {
+  constructor(message: string, public status?: number, public code?: string) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
@@ -0,0 +1,101 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError, sendError } from '../lib/errors';
+import { getModerationPolicy, ModerationPolicy, ModerationResult, moderateText, recordModerationEvent, resolveModerationSchool } from '../lib/moderation';
+import { getRequestId, setLogContext } from './request-logger';
+
+// Set by the client build for a school deployment. Client-controlled, so it only
+// picks a school the server's config lists (see resolveModerationSchool)
+const SCHOOL_HEADER = 'x-school-id';
+const SESSION_HEADER = 'x-session-id';
+
+const SELF_HARM_MESSAGE = "It sounds like you might be going through something difficult. You don't have to handle it alone: please talk to a teacher, your school counsellor or another adult you trust.";
+
+interface ModerationContext {
+  policy: ModerationPolicy;
+  schoolId?: string;
+  sessionId?: string;
+  route: string;
+}
+
+function moderationContext(res: Response): ModerationContext {
+  if (!res.locals.moderation) {
+    const req = res.req;
+    const schoolId = resolveModerationSchool(req.get(SCHOOL_HEADER)?.slice(0, 64));
+    res.locals.moderation = {
+      policy: getModerationPolicy(schoolId),
+      schoolId,
+      sessionId: req.get(SESSION_HEADER)?.slice(0, 64),
+      route: `${req.baseUrl}${req.path}`
+    };
+  }
+  return res.locals.moderation;
+}
+
+function moderate(res: Response, direction: 'input' | 'output', field: string, text: string, record = true): ModerationResult {
+  const context = moderationContext(res);
+  const result = moderateText(text, context.policy);
+  if (result.flagged && record) {
+    setLogContext(res, { moderation: result.action });
+    recordModerationEvent({
+      requestId: getRequestId(res),
+      schoolId: context.schoolId,
+      sessionId: context.sessionId,
+      route: context.route,
+      direction,
+      field,
+      categories: result.categories,
+      action: result.action,
+      text
+    });
+  }
+  return result;
+}
+
+/**
+ * Express middleware moderating the listed request body fields (strings or
+ * string lists). Blocked content is answered with 422 CONTENT_BLOCKED; rewritten
+ * content replaces the field before the route sees it.
+ */
+export function moderateInput(fields: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const blocked: ModerationResult[] = [];
+
+    for (const field of fields) {
+      const value = req.body?.[field];
+      if (typeof value === 'string') {
+        const result = moderate(res, 'input', field, value);
+        if (result.action === 'block') blocked.push(result);
+        req.body[field] = result.text;
+      } else if (Array.isArray(value)) {
+        req.body[field] = value.map(item => {
+          if (typeof item !== 'string') return item;
+          const result = moderate(res, 'input', field, item);
+          if (result.action === 'block') blocked.push(result);
+          return result.text;
+        });
+      }
+    }
+
+    if (blocked.length > 0) {
+      setLogContext(res, { outcome: 'rejected' });
+      const selfHarm = blocked.some(result => result.categories.includes('self_harm'));
+      return sendError(res, new ApiError('CONTENT_BLOCKED', selfHarm ? { message: SELF_HARM_MESSAGE } : {}));
+    }
+    next();
+  };
+}
+
+/**
+ * Moderates one piece of model output: the (possibly masked) text, or null if it
+ * must not be shown. Pass `record: false` for partial text (stream deltas) whose
+ * complete version is moderated again later, so teachers see one event, not many.
+ */
+export function moderateOutput(res: Response, field: string, text: string, options: { record?: boolean } = {}): string | null {
+  const result = moderate(res, 'output', field, text, options.record ?? true);
+  return result.action === 'block' ? null : result.text;
+}
+
+/** Drops generated tags that were flagged; a masked tag would be no use as a suggestion. */
+export function moderateTags(res: Response, field: string, tags: string[]): string[] {
+  return tags.filter(tag => !moderate(res, 'output', field, tag).flagged);
+}
@@ -0,0 +1,59 @@
+import { NextFunction, Request, Response } from 'express';
+import { PII_PLACEHOLDER_NOTE, PiiRedaction, PiiRedactor } from '../lib/pii';
+import { setLogContext } from './request-logger';
+
+function redactor(res: Response): PiiRedactor {
+  res.locals.pii ??= new PiiRedactor();
+  return res.locals.pii;
+}
+
+/**
+ * Express middleware replacing personal details in the listed request body
+ * fields (strings or string lists) with placeholders, so the route's cache
+ * key, logs and model prompt never contain them.
+ */
+export function redactPiiInput(fields: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const pii = redactor(res);
+    for (const field of fields) {
+      const value = req.body?.[field];
+      if (typeof value === 'string') {
+        req.body[field] = pii.redact(value);
+      } else if (Array.isArray(value)) {
+        req.body[field] = value.map(item => typeof item === 'string' ? pii.redact(item) : item);
+      }
+    }
+
+    if (pii.redactions.length > 0) {
+      // Kinds and counts only
+      const counts: Record<string, number> = {};
+      for (const { kind } of pii.redactions) counts[kind] = (counts[kind] ?? 0) + 1;
+      setLogContext(res, { piiRedacted: counts });
+    }
+    next();
+  };
+}
+
+/** What was redacted from this request's input. */
+export function piiRedactions(res: Response): PiiRedaction[] {
+  return redactor(res).redactions;
+}
+
+/** Text to append to a model prompt so the model keeps placeholders intact ('' when nothing was redacted). */
+export function piiPromptNote(res: Response): string {
+  return piiRedactions(res).length > 0 ? `\n\n${PII_PLACEHOLDER_NOTE}` : '';
+}
+
+/** Puts names and schools back into model output; see PiiRedactor.restore. */
+export function restorePii(res: Response, text: string): string {
+  return redactor(res).restore(text);
+}
+
+/** The request's text as the student typed it; see PiiRedactor.unredact. */
+export function unredactPii(res: Response, text: string): string {
+  return redactor(res).unredact(text);
+}
+
+export function piiStreamRestorer(res: Response): (chunk: string, flush?: boolean) => string {
+  return redactor(res).streamRestorer();
+}
@@ -0,0 +1,151 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError, sendError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { setLogContext } from './request-logger';
+
+// --- Token bucket rate limiting ---
+// Each client gets a bucket of `capacity` tokens that refills continuously over
+// `windowSeconds`. A request spends one token; an empty bucket means 429.
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitRule {
+  capacity: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitOptions {
+  // Route group name, used for env overrides and to keep buckets separate
+  name: string;
+  // Limit per browser session (X-Session-Id header, falling back to IP)
+  perSession: RateLimitRule;
+  // Higher limit per IP, so a school behind one NAT address is not throttled as one student,
+  // but a script rotating session IDs still cannot drain the quota
+  perIp: RateLimitRule;
+}
+
+const SESSION_HEADER = 'x-session-id';
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+function isDisabled(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.RATE_LIMIT_DISABLED || '').toLowerCase());
+}
+
+function isPositive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+// RATE_LIMIT_<NAME>_SESSION / RATE_LIMIT_<NAME>_IP = "<requests>/<seconds>", e.g. "10/60".
+// A zero or unparsable value would stop the bucket refilling, so the default is kept instead.
+function ruleFromEnv(variable: string, fallback: RateLimitRule): RateLimitRule {
+  const value = process.env[variable];
+  if (!value) return fallback;
+  const match = value.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  const rule = match && { capacity: Number(match[1]), windowSeconds: Number(match[2]) };
+  if (!rule || !isPositive(rule.capacity) || !isPositive(rule.windowSeconds)) {
+    logger.warn('rate_limit_config_invalid', { variable, value });
+    return fallback;
+  }
+  return rule;
+}
+
+class TokenBucketStore {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly rule: RateLimitRule) {
+    // Full buckets carry no state worth keeping
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  // retryAfter is 0 when the request is allowed, otherwise the seconds until a token is available
+  take(key: string): { retryAfter: number; remaining: number } {
+    const now = Date.now();
+    const refillPerMs = this.rule.capacity / (this.rule.windowSeconds * 1000);
+    const bucket = this.buckets.get(key) ?? { tokens: this.rule.capacity, updatedAt: now };
+
+    bucket.tokens = Math.min(this.rule.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { retryAfter: 0, remaining: Math.floor(bucket.tokens) };
+    }
+    // A token never takes longer than one window to come back
+    const wait = Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+    return { retryAfter: Number.isFinite(wait) ? Math.min(Math.max(wait, 1), this.rule.windowSeconds) : this.rule.windowSeconds, remaining: 0 };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    const refillPerMs = this.rule.capacity / (this.rule.windowSeconds * 1000);
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= this.rule.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Express middleware enforcing per-session and per-IP token buckets.
+ * Rejected requests get 429 with a Retry-After header (in seconds).
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const envName = options.name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const sessionRule = ruleFromEnv(`RATE_LIMIT_${envName}_SESSION`, options.perSession);
+  const ipRule = ruleFromEnv(`RATE_LIMIT_${envName}_IP`, options.perIp);
+  const sessionBuckets = new TokenBucketStore(sessionRule);
+  const ipBuckets = new TokenBucketStore(ipRule);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (isDisabled()) return next();
+
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const sessionId = req.get(SESSION_HEADER);
+    const sessionKey = sessionId ? `session:${sessionId.slice(0, 64)}` : `ip:${ip}`;
+
+    const session = sessionBuckets.take(sessionKey);
+    const perIp = session.retryAfter === 0 ? ipBuckets.take(ip) : { retryAfter: 0, remaining: 0 };
+    const retryAfter = Math.max(session.retryAfter, perIp.retryAfter);
+
+    res.setHeader('RateLimit-Limit', sessionRule.capacity);
+    res.setHeader('RateLimit-Remaining', session.remaining);
+
+    if (retryAfter > 0) {
+      setLogContext(res, { rateLimit: options.name, retryAfter });
+      return sendError(res, new ApiError('RATE_LIMITED', { retryAfter }));
+    }
+    next();
+  };
+}
+
+// Analysis calls are the expensive ones; tag suggestions fire on every topic edit
+export const analyzeRateLimit = rateLimit({
+  name: 'analyze',
+  perSession: { capacity: 10, windowSeconds: 60 },
+  perIp: { capacity: 60, windowSeconds: 60 }
+});
+
+// Each "try it" run is two full model answers
+export const tryRateLimit = rateLimit({
+  name: 'try',
+  perSession: { capacity: 5, windowSeconds: 60 },
+  perIp: { capacity: 30, windowSeconds: 60 }
+});
+
+export const tagsRateLimit = rateLimit({
+  name: 'tags',
+  perSession: { capacity: 30, windowSeconds: 60 },
+  perIp: { capacity: 200, windowSeconds: 60 }
+});
+
+// History sync writes once per saved analysis, plus a full upload when a browser first syncs
+export const historyRateLimit = rateLimit({
+  name: 'history',
+  perSession: { capacity: 60, windowSeconds: 60 },
+  perIp: { capacity: 300, windowSeconds: 60 }
+});
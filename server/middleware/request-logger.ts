@@ -0,0 +1,59 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { logger } from '../lib/logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// What a route knows about its own outcome, merged into the request log line
+export interface RequestLogContext {
+  model?: string;
+  outcome?: 'success' | 'cache_hit' | 'fallback' | 'error' | 'rejected';
+  errorCategory?: string;
+  [key: string]: unknown;
+}
+
+export function setLogContext(res: Response, context: RequestLogContext): void {
+  res.locals.logContext = { ...res.locals.logContext, ...context };
+}
+
+export function getRequestId(res: Response): string {
+  return res.locals.requestId;
+}
+
+/**
+ * Assigns every request an ID (reusing a well-formed incoming X-Request-Id),
+ * echoes it in the response header and writes one summary log line when the
+ * response finishes or the client disconnects.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && /^[\w-]{8,64}$/.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  res.locals.requestId = requestId;
+  res.locals.logContext = {};
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  let logged = false;
+  const logRequest = () => {
+    if (logged) return;
+    logged = true;
+    const context: RequestLogContext = res.locals.logContext;
+    const status = res.statusCode;
+    logger.info('request', {
+      requestId,
+      method: req.method,
+      // Prefer the route pattern (no IDs or query strings); unmatched requests fall back to the URL path
+      route: req.route ? `${req.baseUrl ?? ''}${req.route.path}` : req.originalUrl.split('?')[0],
+      status,
+      latencyMs: Number((process.hrtime.bigint() - startedAt) / 1_000_000n),
+      aborted: !res.writableFinished,
+      ...context,
+      outcome: context.outcome ?? (status === 429 ? 'rejected' : status >= 400 ? 'error' : 'success')
+    });
+  };
+
+  res.on('finish', logRequest);
+  res.on('close', logRequest);
+  next();
+}
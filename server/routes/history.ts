@@ -0,0 +1,69 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { JsonSchema } from '../llm';
+import { ApiError, sendError } from '../lib/errors';
+import { getHistoryStore, isHistorySyncEnabled } from '../lib/history';
+import { validateBody } from '../lib/validation';
+import { historyRateLimit } from '../middleware/rate-limit';
+
+const router = express.Router();
+
+// Generated once per browser and kept in localStorage, unlike the per-tab session ID
+const HISTORY_KEY_HEADER = 'x-history-key';
+const HISTORY_KEY_PATTERN = /^[\w-]{16,64}$/;
+const ENTRY_ID_PATTERN = '^[\\w-]{1,64}$';
+
+const entrySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', pattern: ENTRY_ID_PATTERN },
+    createdAt: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}T' },
+    prompt: { type: 'string', maxLength: 5000 },
+    score: { type: 'number', minimum: 0, maximum: 100 },
+    rubric: { type: 'object' },
+    analysis: { type: 'object' }
+  },
+  required: ['id', 'createdAt', 'prompt', 'score', 'analysis']
+};
+
+function requireHistoryKey(req: Request, res: Response, next: NextFunction) {
+  if (!isHistorySyncEnabled()) {
+    return sendError(res, new ApiError('NOT_CONFIGURED', { message: 'History sync is not set up on this server.' }));
+  }
+  const key = req.get(HISTORY_KEY_HEADER);
+  if (!key || !HISTORY_KEY_PATTERN.test(key)) {
+    return sendError(res, new ApiError('VALIDATION_FAILED', { message: 'A history key is required to sync history.' }));
+  }
+  res.locals.historyKey = key;
+  next();
+}
+
+router.use(historyRateLimit, requireHistoryKey);
+
+/** This browser's synced analyses, newest first. */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ entries: getHistoryStore().list(res.locals.historyKey) });
+});
+
+router.put('/:id', validateBody(entrySchema), (req: Request, res: Response) => {
+  if (req.body.id !== req.params.id) {
+    return sendError(res, new ApiError('VALIDATION_FAILED', { message: 'The entry ID does not match the URL.' }));
+  }
+  const { id, createdAt, prompt, score, rubric, analysis } = req.body;
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  if (!getHistoryStore().put(res.locals.historyKey, { id, createdAt, prompt, score, rubric, analysis }, ip)) {
+    return sendError(res, new ApiError('ACCESS_DENIED', { message: 'This server cannot sync history for another browser right now. Your history is still saved in this browser.' }));
+  }
+  res.json({ success: true });
+});
+
+router.delete('/:id', (req: Request, res: Response) => {
+  getHistoryStore().remove(res.locals.historyKey, req.params.id);
+  res.json({ success: true });
+});
+
+router.delete('/', (_req: Request, res: Response) => {
+  getHistoryStore().clear(res.locals.historyKey);
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { ApiError, sendError } from '../lib/errors';
+import { listModerationEvents } from '../lib/moderation';
+
+const router = express.Router();
+
+const MAX_EVENTS = 500;
+
+// Review events contain student text, so the endpoint only exists once
+// MODERATION_REVIEW_TOKEN is set, and callers must send it as a bearer token
+function requireReviewToken(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.MODERATION_REVIEW_TOKEN;
+  if (!expected) {
+    return sendError(res, new ApiError('NOT_CONFIGURED', { message: 'Moderation review is not set up on this server.' }));
+  }
+  const given = Buffer.from((req.get('authorization') || '').replace(/^Bearer\s+/i, ''));
+  const wanted = Buffer.from(expected);
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return sendError(res, new ApiError('ACCESS_DENIED'));
+  }
+  next();
+}
+
+/**
+ * Flagged inputs and outputs for teachers to review, newest first.
+ * Query: ?school=<school id>&limit=<1-500, default 100>
+ */
+router.get('/events', requireReviewToken, (req: Request, res: Response) => {
+  const school = typeof req.query.school === 'string' ? req.query.school : undefined;
+  const limit = Math.min(MAX_EVENTS, Math.max(1, Number(req.query.limit) || 100));
+  res.json({ events: listModerationEvents({ schoolId: school, limit }) });
+});
+
+export default router;
@@ -1,19 +1,23 @@
 import express, { Request, Response } from 'express';
-import { GoogleGenAI, Type } from '@google/genai';
+import { generateStructured, getLlmProvider, JsonSchema } from '../llm';
+import { buildCacheKey, getResponseCache } from '../lib/cache';
+import { detectedMetaSchema, learnerKey, learnerMetadata, learnerPromptNote, resolveLearner } from '../lib/curriculum';
+import { ApiError, fallbackReason, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { containsPlaceholder } from '../lib/pii';
+import { fenceUntrusted, noteInjection, scanForInjection, withInjectionGuard } from '../lib/prompt-guard';
+import { validateBody } from '../lib/validation';
+import { moderateInput, moderateTags } from '../middleware/moderation';
+import { piiPromptNote, redactPiiInput } from '../middleware/pii';
+import { tagsRateLimit } from '../middleware/rate-limit';
+import { getRequestId, setLogContext } from '../middleware/request-logger';
+import { ConflictTag, contradictsSelection, OUTPUT_FORMAT_CATEGORY } from '../../shared/tag-conflicts';
 
 const router = express.Router();
-const isDevelopment = process.env.NODE_ENV !== 'production';
 
-const apiKey = process.env.GEMINI_API_SECRET;
-const genAI = apiKey ? new GoogleGenAI({ apiKey }) : null;
+const llm = getLlmProvider();
 
-// --- Caching Setup ---
-interface CacheEntry {
-  data: any;
-  timestamp: number;
-}
-const cache = new Map<string, CacheEntry>();
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const cache = getResponseCache();
 
 // --- Fallback Data ---
 const FALLBACK_TAGS = [
@@ -24,123 +28,211 @@ const FALLBACK_TAGS = [
   "Include Practice Questions"
 ];
 
-router.post('/generate', async (req: Request, res: Response) => {
-  const { topic, intent, persona, stage, selectedTags = [], visibleTags = [] } = req.body;
+const FALLBACK_OUTPUT_SUGGESTIONS = [
+  "Numbered list format",
+  "Table with columns",
+  "Question answer pairs",
+  "Short summary",
+  "Mind map outline"
+];
 
-  if (isDevelopment) {
-    console.log('\n📥 [INCOMING REQUEST] /api/tags/generate');
-    console.log('   Params:', { topic, intent, persona, stage });
-  }
+const TAG_GROUPS = ['personaStyle', 'addContext', 'taskInstruction', 'formatConstraints', 'reasoningHelp'] as const;
+type TagGroup = typeof TAG_GROUPS[number];
 
-  // 1. Validation
-  if (!topic || !intent || !persona) {
-    return res.status(400).json({ success: false, message: 'Missing required fields' });
-  }
+// How each category is described to the model
+const TAG_GROUP_GUIDES: Record<TagGroup, string> = {
+  personaStyle: 'Persona Style: Voice/tone (e.g., "Act As Friendly Teacher", "Be Strict Exam Coach")',
+  addContext: 'Add Context: Curriculum/level (e.g., "Follow CBSE Style", "Use Class 10 Level")',
+  taskInstruction: 'Task Instruction: Core action (e.g., "Generate Practice Questions", "Explain Key Concepts")',
+  formatConstraints: 'Format Constraints: Output structure (e.g., "Give Bullet Points", "Make Short Notes")',
+  reasoningHelp: 'Reasoning Help: Cognitive scaffolding (e.g., "Explain Step By Step", "Add Simple Analogy")'
+};
+
+const FALLBACK_CATEGORY_TAGS: Record<TagGroup, string[]> = {
+  personaStyle: ['Act As Friendly Teacher', 'Be Patient Subject Tutor', 'Be Strict Exam Coach', 'Act As Curious Guide'],
+  addContext: ['Use Class Level Words', 'Add Daily Life Examples', 'Follow Board Exam Style', 'Mention Prior Chapter Links'],
+  taskInstruction: ['Explain Key Concepts Clearly', 'Generate Practice Questions', 'Summarize Main Points', 'List Common Mistakes'],
+  formatConstraints: ['Format As Bullet Points', 'Make Short Revision Notes', 'Use Simple Comparison Table', 'Add Numbered Step List'],
+  reasoningHelp: ['Explain Step By Step', 'Add Simple Analogy', 'Show Worked Example', 'Ask Check Questions']
+};
+
+// Tags offered each time one category is regenerated
+const CATEGORY_TAG_COUNT = 3;
+
+const tagListSchema: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const generateRequestSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string', pattern: '\\S' },
+    intent: { type: 'string', pattern: '\\S' },
+    persona: { type: 'string', pattern: '\\S' },
+    stage: { type: 'number', enum: [1, 2] },
+    selectedTags: tagListSchema,
+    visibleTags: tagListSchema,
+    detected: detectedMetaSchema
+  },
+  required: ['topic', 'intent', 'persona']
+};
+
+const categoryRequestSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string', pattern: '\\S' },
+    intent: { type: 'string', pattern: '\\S' },
+    persona: { type: 'string', pattern: '\\S' },
+    category: { type: 'string', enum: [...TAG_GROUPS] },
+    selectedTags: tagListSchema,
+    visibleTags: tagListSchema,
+    detected: detectedMetaSchema
+  },
+  required: ['topic', 'intent', 'persona', 'category']
+};
+
+const outputSuggestionsRequestSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string', pattern: '\\S' },
+    intent: { type: 'string', pattern: '\\S' },
+    persona: { type: 'string', pattern: '\\S' },
+    selectedSmartTags: tagListSchema,
+    selectedOutputTags: tagListSchema,
+    detected: detectedMetaSchema
+  },
+  required: ['topic', 'intent', 'persona']
+};
+
+// Keeps generated tags of 3 to 4 words, without punctuation. A tag carrying an instruction
+// was steered by the input, and one with a redaction placeholder is about the student personally
+function validateTags(tags: string[]): string[] {
+  if (!Array.isArray(tags)) return [];
+  return tags.filter(tag => {
+    const cleanTag = tag.replace(/[^\w\s]/g, '').trim();
+    const words = cleanTag.split(/\s+/);
+    return words.length >= 3 && words.length <= 4 && !scanForInjection(tag).detected && !containsPlaceholder(tag);
+  }).map(tag => tag.replace(/[^\w\s]/g, '').trim());
+}
+
+// Picked tags as the conflict rules see them (the request only has their text)
+function toConflictTags(tags: string[], category?: string): ConflictTag[] {
+  return tags.map(text => ({ text, category }));
+}
+
+// Generated tags are moderated when sent rather than when cached, so each
+// school's policy applies even to suggestions first generated for another school
+function moderateSmartTags(res: Response, data: { tags: string[]; groups?: Record<string, string[]> }) {
+  const allowed = new Set(moderateTags(res, 'tags', [...new Set([...data.tags, ...Object.values(data.groups ?? {}).flat()])]));
+  const keep = (tags: string[]) => tags.filter(tag => allowed.has(tag));
+  return {
+    ...data,
+    tags: keep(data.tags),
+    ...(data.groups && { groups: Object.fromEntries(Object.entries(data.groups).map(([group, tags]) => [group, keep(tags)])) })
+  };
+}
 
-  // 2. Check Cache
-  const cacheKey = `${topic}:${intent}:${persona}:${stage}`;
+router.post('/generate', tagsRateLimit, validateBody(generateRequestSchema), moderateInput(['topic', 'intent', 'persona', 'selectedTags', 'visibleTags']), redactPiiInput(['topic', 'intent', 'persona', 'selectedTags', 'visibleTags']), async (req: Request, res: Response) => {
+  const { topic, intent, persona, stage, selectedTags = [], visibleTags = [], detected } = req.body;
+  const learner = resolveLearner(detected);
+  // The class, board, subject and chapter the suggestions were made for
+  const metadata = learnerMetadata(learner);
+
+  // 1. Check Cache
+  const cacheKey = buildCacheKey('tags/generate', { topic, intent, persona, stage, selectedTags, visibleTags, learner: learnerKey(learner) });
   const cached = cache.get(cacheKey);
   if (cached) {
-    const age = Date.now() - cached.timestamp;
-    if (age < CACHE_TTL_MS) {
-      if (isDevelopment) console.log('   ✅ Serving from cache');
-      return res.json(cached.data);
-    } else {
-      cache.delete(cacheKey); // Expired
-    }
+    setLogContext(res, { outcome: 'cache_hit' });
+    return res.json(moderateSmartTags(res, cached));
   }
 
-  // 3. Fallback if no API key
-  if (!genAI) {
-    if (isDevelopment) console.warn('⚠️ Gemini API not configured');
-    return res.json({ 
-      success: true, 
-      tags: FALLBACK_TAGS.slice(0, stage === 1 ? 3 : 5), 
-      fallback: true, 
-      message: 'Gemini API not configured' 
+  // 2. Fallback if no API key
+  if (!llm) {
+    return res.json({
+      success: true,
+      tags: FALLBACK_TAGS.slice(0, stage === 1 ? 3 : 5),
+      metadata,
+      ...fallbackReason(res, new ApiError('NOT_CONFIGURED'))
     });
   }
 
+  setLogContext(res, { model: llm.model, provider: llm.name });
+  noteInjection(res, scanForInjection(topic, intent, persona, selectedTags, visibleTags));
+
   try {
-    // 4. Construct Prompt
+    // 3. Construct Prompt (student text only ever appears fenced in the user prompt)
     const count = stage === 1 ? 3 : 5;
     const existingTags = [...new Set([...selectedTags, ...visibleTags])];
     
-    const systemInstruction = `You are an expert educational prompt engineer. Your task is to generate "Smart Tags" - short, action-oriented suggestions that help a user refine their prompt.
+    const systemInstruction = withInjectionGuard(`You are an expert educational prompt engineer. Your task is to generate "Smart Tags" - short, action-oriented suggestions that help a user refine their prompt.
     
     Categories:
-    1. Persona Style: Voice/tone (e.g., "Act As Friendly Teacher", "Be Strict Exam Coach")
-    2. Add Context: Curriculum/level (e.g., "Follow CBSE Style", "Use Class 10 Level")
-    3. Task Instruction: Core action (e.g., "Generate Practice Questions", "Explain Key Concepts")
-    4. Format Constraints: Output structure (e.g., "Give Bullet Points", "Make Short Notes")
-    5. Reasoning Help: Cognitive scaffolding (e.g., "Explain Step By Step", "Add Simple Analogy")
+    ${TAG_GROUPS.map((group, i) => `${i + 1}. ${TAG_GROUP_GUIDES[group]}`).join('\n    ')}
 
     Constraints:
     1. Each tag must be exactly 3 to 4 words long.
     2. Each tag must start with a strong action verb (e.g., Include, Add, Use, Explain, Provide, Avoid, Make, Give).
     3. Tags must be safe for students and appropriate for a school setting.
-    4. Do NOT duplicate any of these existing tags: ${existingTags.join(', ')}.
+    4. Do NOT duplicate any of the existing tags listed in the user message.
     5. Do NOT use any punctuation in the tags (no periods, commas, etc.).
     6. Generate exactly ${count} tags IN TOTAL across all categories combined. Pick the most relevant categories for the user's intent.
-    `;
+    `);
 
-    const userPrompt = `Generate ${count} smart tags for a prompt about "${topic}".
-    Persona: ${persona}
-    Intent: ${intent}
-    Stage: ${stage} (1 = Initial suggestions, 2 = Follow-up suggestions)`;
+    let userPrompt = `Generate ${count} smart tags for a prompt about this topic:
+    ${fenceUntrusted('topic', topic)}
+    Persona: ${fenceUntrusted('persona', persona)}
+    Intent: ${fenceUntrusted('intent', intent)}
+    Existing tags: ${fenceUntrusted('existing tags', existingTags)}
+    Stage: ${stage} (1 = Initial suggestions, 2 = Follow-up suggestions)${learnerPromptNote(learner)}`;
+
+    if (stage === 2 && selectedTags.length > 0) {
+      userPrompt += `\n    The user has already selected these tags: ${fenceUntrusted('selected tags', selectedTags)}\n    Suggest complementary tags that go well with these: fill in the categories they leave open, or build on them. Avoid duplicates.`;
+    }
+    userPrompt += piiPromptNote(res);
 
-    // 5. Define Schema
-    const responseSchema = {
-      type: Type.OBJECT,
+    // 4. Define Schema
+    const responseSchema: JsonSchema = {
+      type: 'object',
       properties: {
-        personaStyle: { type: Type.ARRAY, items: { type: Type.STRING } },
-        addContext: { type: Type.ARRAY, items: { type: Type.STRING } },
-        taskInstruction: { type: Type.ARRAY, items: { type: Type.STRING } },
-        formatConstraints: { type: Type.ARRAY, items: { type: Type.STRING } },
-        reasoningHelp: { type: Type.ARRAY, items: { type: Type.STRING } }
+        personaStyle: { type: 'array', items: { type: 'string' } },
+        addContext: { type: 'array', items: { type: 'string' } },
+        taskInstruction: { type: 'array', items: { type: 'string' } },
+        formatConstraints: { type: 'array', items: { type: 'string' } },
+        reasoningHelp: { type: 'array', items: { type: 'string' } }
       },
       required: ["personaStyle", "addContext", "taskInstruction", "formatConstraints", "reasoningHelp"]
     };
 
-    // 6. Call Gemini
-    const result = await genAI.models.generateContent({
-      model: 'gemini-1.5-flash',
-      contents: userPrompt,
-      config: {
-        systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: responseSchema,
-        temperature: 0.7
-      }
+    // 5. Call Model (reply is parsed, repaired and validated against the schema)
+    const parsed = await generateStructured<Record<TagGroup, string[]>>(llm, {
+      task: 'smart-tags',
+      prompt: userPrompt,
+      input: { topic, intent, persona, stage, existingTags, learner: learnerKey(learner) },
+      systemInstruction,
+      schema: responseSchema,
+      temperature: 0.7
+    }, {
+      // A category the model left out just has no tags
+      normalize: value => Object.fromEntries(TAG_GROUPS.map(group => [group, value?.[group] ?? []])) as Record<TagGroup, string[]>,
+      requestId: getRequestId(res)
     });
 
-    // 7. Parse Response
-    const responseText = result.text;
-    if (!responseText) {
-      throw new Error('No response text received from Gemini');
-    }
-    const parsed = JSON.parse(responseText);
-
-    if (isDevelopment) {
-      console.log('   Raw Groups:', parsed);
-    }
+    logger.debug('smart_tags_parsed', {
+      requestId: getRequestId(res),
+      counts: Object.fromEntries(Object.entries(parsed).map(([k, v]) => [k, Array.isArray(v) ? v.length : 0]))
+    });
 
-    // Helper to validate a list of tags
-    const validateTags = (tags: string[]) => {
-      if (!Array.isArray(tags)) return [];
-      return tags.filter(tag => {
-        const cleanTag = tag.replace(/[^\w\s]/g, '').trim();
-        const words = cleanTag.split(/\s+/);
-        return words.length >= 3 && words.length <= 4;
-      }).map(tag => tag.replace(/[^\w\s]/g, '').trim());
-    };
+    // Tags the user can already see are never suggested again (ignoring case),
+    // and neither are tags that contradict one they picked
+    const existing = new Set(existingTags.map((t: string) => t.toLowerCase()));
+    const selection = toConflictTags(selectedTags);
+    const newTags = (tags: string[]) => validateTags(tags)
+      .filter(tag => !existing.has(tag.toLowerCase()) && !contradictsSelection({ text: tag }, selection));
 
     const groups = {
-      personaStyle: validateTags(parsed.personaStyle),
-      addContext: validateTags(parsed.addContext),
-      taskInstruction: validateTags(parsed.taskInstruction),
-      formatConstraints: validateTags(parsed.formatConstraints),
-      reasoningHelp: validateTags(parsed.reasoningHelp)
+      personaStyle: newTags(parsed.personaStyle),
+      addContext: newTags(parsed.addContext),
+      taskInstruction: newTags(parsed.taskInstruction),
+      formatConstraints: newTags(parsed.formatConstraints),
+      reasoningHelp: newTags(parsed.reasoningHelp)
     };
     
     const allTags = [
@@ -152,11 +244,11 @@ router.post('/generate', async (req: Request, res: Response) => {
     ];
 
     // Ensure we have enough tags, if not, fill from fallback (excluding existing)
-    let finalTags = allTags.filter(t => !existingTags.includes(t));
+    let finalTags = allTags;
     
     if (finalTags.length < count) {
         const needed = count - finalTags.length;
-        const availableFallbacks = FALLBACK_TAGS.filter(t => !existingTags.includes(t) && !finalTags.includes(t));
+        const availableFallbacks = FALLBACK_TAGS.filter(t => !existing.has(t.toLowerCase()) && !finalTags.includes(t) && !contradictsSelection({ text: t }, selection));
         finalTags = [...finalTags, ...availableFallbacks.slice(0, needed)];
     }
     
@@ -167,24 +259,295 @@ router.post('/generate', async (req: Request, res: Response) => {
       success: true, 
       groups: groups,
       tags: finalTags,
+      metadata,
       fallback: false
     };
 
-    // 8. Update Cache
-    cache.set(cacheKey, {
-      data: responseData,
-      timestamp: Date.now()
-    });
+    // 6. Update Cache
+    cache.set(cacheKey, responseData);
 
-    res.json(responseData);
+    res.json(moderateSmartTags(res, responseData));
 
   } catch (error) {
-    console.error('Gemini Tag Generation Error:', error);
+    const apiError = toApiError(error);
+    logger.error('tag_generation_failed', { requestId: getRequestId(res), model: llm.model, code: apiError.code, error });
     res.json({
       success: true,
       tags: FALLBACK_TAGS.slice(0, stage === 1 ? 3 : 5),
-      fallback: true,
-      message: error instanceof Error ? error.message : 'Unknown error'
+      metadata,
+      ...fallbackReason(res, apiError)
+    });
+  }
+});
+
+/**
+ * New suggestions for one category, so a student can keep the tags they like
+ * elsewhere and cycle through ideas for just this one. Tags in `visibleTags`
+ * and `selectedTags` are never offered again.
+ */
+router.post('/category', tagsRateLimit, validateBody(categoryRequestSchema), moderateInput(['topic', 'intent', 'persona', 'selectedTags', 'visibleTags']), redactPiiInput(['topic', 'intent', 'persona', 'selectedTags', 'visibleTags']), async (req: Request, res: Response) => {
+  const { topic, intent, persona, selectedTags = [], visibleTags = [], detected } = req.body;
+  // One of TAG_GROUPS, checked by the request schema
+  const category: TagGroup = req.body.category;
+  const learner = resolveLearner(detected);
+  const metadata = learnerMetadata(learner);
+  const count = CATEGORY_TAG_COUNT;
+
+  const existingTags: string[] = [...new Set<string>([...selectedTags, ...visibleTags])];
+  const existing = new Set(existingTags.map(t => t.toLowerCase()));
+  // Tags that contradict a picked one are never offered
+  const selection = toConflictTags(selectedTags);
+  const fallbackTags = () => FALLBACK_CATEGORY_TAGS[category]
+    .filter(t => !existing.has(t.toLowerCase()) && !contradictsSelection({ text: t }, selection))
+    .slice(0, count);
+
+  // 1. Check Cache
+  const cacheKey = buildCacheKey('tags/category', { topic, intent, persona, category, selectedTags, visibleTags, learner: learnerKey(learner) });
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    setLogContext(res, { outcome: 'cache_hit' });
+    return res.json({ ...cached, tags: moderateTags(res, 'tags', cached.tags) });
+  }
+
+  // 2. Fallback if no API key
+  if (!llm) {
+    return res.json({
+      success: true,
+      category,
+      tags: fallbackTags(),
+      metadata,
+      ...fallbackReason(res, new ApiError('NOT_CONFIGURED'))
+    });
+  }
+
+  setLogContext(res, { model: llm.model, provider: llm.name });
+  noteInjection(res, scanForInjection(topic, intent, persona, selectedTags, visibleTags));
+
+  try {
+    // 3. Construct Prompt (student text only ever appears fenced in the user prompt)
+    const systemInstruction = withInjectionGuard(`You are an expert educational prompt engineer. Your task is to generate "Smart Tags" - short, action-oriented suggestions that help a user refine their prompt.
+
+    Generate tags for this category only:
+    ${TAG_GROUP_GUIDES[category]}
+
+    Constraints:
+    1. Each tag must be exactly 3 to 4 words long.
+    2. Each tag must start with a strong action verb (e.g., Include, Add, Use, Explain, Provide, Avoid, Make, Give).
+    3. Tags must be safe for students and appropriate for a school setting.
+    4. Do NOT duplicate any of the existing tags listed in the user message, and offer ideas that differ from them.
+    5. Do NOT use any punctuation in the tags (no periods, commas, etc.).
+    6. Generate exactly ${count} tags.
+    `);
+
+    let userPrompt = `Generate ${count} new smart tags for a prompt about this topic:
+    ${fenceUntrusted('topic', topic)}
+    Persona: ${fenceUntrusted('persona', persona)}
+    Intent: ${fenceUntrusted('intent', intent)}
+    Existing tags: ${fenceUntrusted('existing tags', existingTags)}${learnerPromptNote(learner)}`;
+
+    if (selectedTags.length > 0) {
+      userPrompt += `\n    The user has already selected these tags: ${fenceUntrusted('selected tags', selectedTags)}\n    Suggest tags that go well with them.`;
+    }
+    userPrompt += piiPromptNote(res);
+
+    // 4. Define Schema
+    const responseSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ["tags"]
+    };
+
+    // 5. Call Model (reply is parsed, repaired and validated against the schema)
+    const parsed = await generateStructured<{ tags: string[] }>(llm, {
+      task: 'category-tags',
+      prompt: userPrompt,
+      input: { topic, intent, persona, category, count, existingTags, learner: learnerKey(learner) },
+      systemInstruction,
+      schema: responseSchema,
+      temperature: 0.9
+    }, { requestId: getRequestId(res) });
+
+    logger.debug('category_tags_parsed', {
+      requestId: getRequestId(res),
+      category,
+      count: parsed.tags.length
+    });
+
+    // De-duplicate (case-insensitive) against each other and existing tags, and drop
+    // tags that contradict a picked one
+    let finalTags: string[] = [];
+    for (const tag of validateTags(parsed.tags)) {
+      const lower = tag.toLowerCase();
+      if (existing.has(lower) || finalTags.some(t => t.toLowerCase() === lower)) continue;
+      if (contradictsSelection({ text: tag }, selection)) continue;
+      finalTags.push(tag);
+    }
+
+    // Ensure we have enough tags, if not, fill from fallback
+    if (finalTags.length < count) {
+      finalTags = [...finalTags, ...fallbackTags().filter(t => !finalTags.some(f => f.toLowerCase() === t.toLowerCase()))];
+    }
+    finalTags = finalTags.slice(0, count);
+
+    const responseData = {
+      success: true,
+      category,
+      tags: finalTags,
+      metadata,
+      fallback: false
+    };
+
+    // 6. Update Cache
+    cache.set(cacheKey, responseData);
+
+    res.json({ ...responseData, tags: moderateTags(res, 'tags', responseData.tags) });
+
+  } catch (error) {
+    const apiError = toApiError(error);
+    logger.error('category_tags_failed', { requestId: getRequestId(res), model: llm.model, category, code: apiError.code, error });
+    res.json({
+      success: true,
+      category,
+      tags: fallbackTags(),
+      metadata,
+      ...fallbackReason(res, apiError)
+    });
+  }
+});
+
+router.post('/output-suggestions', tagsRateLimit, validateBody(outputSuggestionsRequestSchema), moderateInput(['topic', 'intent', 'persona', 'selectedSmartTags', 'selectedOutputTags']), redactPiiInput(['topic', 'intent', 'persona', 'selectedSmartTags', 'selectedOutputTags']), async (req: Request, res: Response) => {
+  const { topic, intent, persona, selectedSmartTags = [], selectedOutputTags = [], detected } = req.body;
+  const learner = resolveLearner(detected);
+
+  const count = 3;
+
+  // 1. Check Cache
+  const cacheKey = buildCacheKey('tags/output-suggestions', { topic, intent, persona, selectedSmartTags, selectedOutputTags, learner: learnerKey(learner) });
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    setLogContext(res, { outcome: 'cache_hit' });
+    return res.json({ ...cached, suggestions: moderateTags(res, 'suggestions', cached.suggestions) });
+  }
+
+  // Output formats the user already has should never be suggested again
+  const existingFormats = selectedOutputTags.map((t: string) => t.toLowerCase());
+  // and neither should one that contradicts a picked tag (a table next to "Write A Short Story")
+  const selection = [...toConflictTags(selectedSmartTags), ...toConflictTags(selectedOutputTags, OUTPUT_FORMAT_CATEGORY)];
+  const contradicts = (s: string) => contradictsSelection({ text: s, category: OUTPUT_FORMAT_CATEGORY }, selection);
+  const fallbackSuggestions = () => FALLBACK_OUTPUT_SUGGESTIONS
+    .filter(s => !existingFormats.includes(s.toLowerCase()) && !contradicts(s))
+    .slice(0, count);
+
+  // 2. Fallback if no API key
+  if (!llm) {
+    return res.json({
+      success: true,
+      suggestions: fallbackSuggestions(),
+      ...fallbackReason(res, new ApiError('NOT_CONFIGURED'))
+    });
+  }
+
+  setLogContext(res, { model: llm.model, provider: llm.name });
+  noteInjection(res, scanForInjection(topic, intent, persona, selectedSmartTags, selectedOutputTags));
+
+  try {
+    // 3. Construct Prompt (student text only ever appears fenced in the user prompt)
+    const systemInstruction = withInjectionGuard(`You are an expert educational prompt engineer. Your task is to suggest OUTPUT FORMATS - short descriptions of how an AI answer should be laid out for a student.
+
+    Examples: "Numbered list format", "Table with columns", "Question answer pairs", "Flashcards with answers", "Mind map outline".
+
+    Constraints:
+    1. Each suggestion must be 2 to 4 words long.
+    2. Suggestions must describe structure or layout only, not content or tone.
+    3. Suggestions must be safe for students and appropriate for a school setting.
+    4. Do NOT duplicate any of the existing formats listed in the user message.
+    5. Do NOT use any punctuation in the suggestions.
+    6. Generate exactly ${count} suggestions.
+    `);
+
+    let userPrompt = `Suggest ${count} output formats for a prompt about this topic:
+    ${fenceUntrusted('topic', topic)}
+    Persona: ${fenceUntrusted('persona', persona)}
+    Intent: ${fenceUntrusted('intent', intent)}
+    Existing formats: ${fenceUntrusted('existing formats', selectedOutputTags)}${learnerPromptNote(learner)}`;
+
+    if (selectedSmartTags.length > 0) {
+      userPrompt += `\n    The prompt already includes these requirements: ${fenceUntrusted('requirements', selectedSmartTags)}\n    Pick formats that suit them.`;
+    }
+    userPrompt += piiPromptNote(res);
+
+    // 4. Define Schema
+    const responseSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        suggestions: { type: 'array', items: { type: 'string' } }
+      },
+      required: ["suggestions"]
+    };
+
+    // 5. Call Model (reply is parsed, repaired and validated against the schema)
+    const parsed = await generateStructured<{ suggestions: string[] }>(llm, {
+      task: 'output-suggestions',
+      prompt: userPrompt,
+      input: { topic, intent, persona, selectedSmartTags, selectedOutputTags, learner: learnerKey(learner) },
+      systemInstruction,
+      schema: responseSchema,
+      temperature: 0.7
+    }, { requestId: getRequestId(res) });
+
+    logger.debug('output_suggestions_parsed', {
+      requestId: getRequestId(res),
+      count: parsed.suggestions.length
+    });
+
+    const cleaned: string[] = parsed.suggestions
+      .filter(s => !containsPlaceholder(s))
+      .map(s => s.replace(/[^\w\s]/g, '').trim())
+      .filter(s => {
+        const words = s.split(/\s+/);
+        return s.length > 0 && words.length >= 2 && words.length <= 4 && !scanForInjection(s).detected;
+      })
+      .filter(s => !contradicts(s));
+
+    // De-duplicate (case-insensitive) against each other and existing formats
+    let finalSuggestions: string[] = [];
+    for (const suggestion of cleaned) {
+      const lower = suggestion.toLowerCase();
+      if (existingFormats.includes(lower)) continue;
+      if (finalSuggestions.some(s => s.toLowerCase() === lower)) continue;
+      finalSuggestions.push(suggestion);
+    }
+
+    // Ensure we have enough suggestions, if not, fill from fallback
+    if (finalSuggestions.length < count) {
+      const availableFallbacks = fallbackSuggestions()
+        .filter(s => !finalSuggestions.some(f => f.toLowerCase() === s.toLowerCase()));
+      finalSuggestions = [...finalSuggestions, ...availableFallbacks];
+    }
+
+    // Limit to requested count
+    finalSuggestions = finalSuggestions.slice(0, count);
+
+    const responseData = {
+      success: true,
+      suggestions: finalSuggestions,
+      fallback: false
+    };
+
+    // 6. Update Cache
+    cache.set(cacheKey, responseData);
+
+    res.json({ ...responseData, suggestions: moderateTags(res, 'suggestions', responseData.suggestions) });
+
+  } catch (error) {
+    const apiError = toApiError(error);
+    logger.error('output_suggestions_failed', { requestId: getRequestId(res), model: llm.model, code: apiError.code, error });
+    res.json({
+      success: true,
+      suggestions: fallbackSuggestions(),
+      ...fallbackReason(res, apiError)
     });
   }
 });
@@ -0,0 +1,27 @@
+// Weak spots in the analyzed prompt, pointed out word by word.
+// Offsets are character positions in the prompt exactly as the student sent it.
+
+export const ANNOTATION_TYPES = ['vague_verb', 'missing_audience', 'ambiguous_pronoun', 'unclear_scope'] as const;
+export type AnnotationType = typeof ANNOTATION_TYPES[number];
+
+export interface PromptAnnotation {
+  type: AnnotationType;
+  // The span is prompt.slice(start, end)
+  start: number;
+  end: number;
+  text: string;
+  // Why the span is weak, addressed to the student
+  message: string;
+  // Replacement for the span
+  fix: string;
+}
+
+// An annotation as the model or the offline scorer writes it, before the
+// server finds the quoted words in the prompt
+export interface QuotedAnnotation {
+  type: AnnotationType;
+  // The weak words, copied from the prompt
+  text: string;
+  message: string;
+  fix: string;
+}
@@ -0,0 +1,122 @@
+// Error model shared by the Express server and the Angular client.
+// The server sends an ApiErrorBody for every failed request; the client turns
+// it (or a network failure) back into an ApiError and maps the code to a UI state.
+
+export type ApiErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'CONTENT_BLOCKED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'AUTH_FAILED'
+  | 'MODEL_ACCESS_DENIED'
+  | 'ACCESS_DENIED'
+  | 'NOT_CONFIGURED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'MODEL_RESPONSE_INVALID'
+  | 'STREAM_INTERRUPTED'
+  | 'BACKEND_UNREACHABLE'
+  | 'INTERNAL';
+
+export interface ApiErrorDefinition {
+  // HTTP status the server answers with (0 = the request never reached the server)
+  status: number;
+  // Safe to show to students; never contains provider or configuration details
+  message: string;
+  // Whether sending the same request again can succeed
+  retryable: boolean;
+}
+
+export const API_ERRORS: Record<ApiErrorCode, ApiErrorDefinition> = {
+  VALIDATION_FAILED: { status: 400, message: 'Some required information is missing or invalid.', retryable: false },
+  CONTENT_BLOCKED: { status: 422, message: 'This request contains content that is not allowed in school. Please rephrase it.', retryable: false },
+  RATE_LIMITED: { status: 429, message: 'You are sending requests too quickly.', retryable: true },
+  QUOTA_EXCEEDED: { status: 429, message: 'The AI service is busy right now.', retryable: true },
+  AUTH_FAILED: { status: 401, message: 'The AI service rejected our credentials. Please contact support.', retryable: false },
+  MODEL_ACCESS_DENIED: { status: 403, message: 'The AI model is not available right now. Please contact support.', retryable: false },
+  ACCESS_DENIED: { status: 403, message: 'You do not have access to this page.', retryable: false },
+  NOT_CONFIGURED: { status: 503, message: 'The AI service is not set up yet. Please contact support.', retryable: false },
+  PROVIDER_UNAVAILABLE: { status: 503, message: 'Unable to reach the AI service. Please try again shortly.', retryable: true },
+  MODEL_RESPONSE_INVALID: { status: 502, message: 'The AI returned an unexpected answer. Please try again.', retryable: true },
+  STREAM_INTERRUPTED: { status: 502, message: 'The analysis was interrupted. Please try again.', retryable: true },
+  BACKEND_UNREACHABLE: { status: 0, message: 'Cannot reach the BetterAsk server. Check your connection and try again.', retryable: true },
+  INTERNAL: { status: 500, message: 'Something went wrong on our side. Please try again.', retryable: true }
+};
+
+// One problem with one field of a request body, e.g. { path: 'selectedTags[1]', message: 'must be a string' }
+export interface FieldIssue {
+  path: string;
+  message: string;
+}
+
+// JSON body of every error response (and of the SSE `error` event)
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  retryable: boolean;
+  // Seconds until a retry is allowed (RATE_LIMITED / QUOTA_EXCEEDED)
+  retryAfter?: number;
+  requestId?: string;
+  // Field-level problems (VALIDATION_FAILED only)
+  issues?: FieldIssue[];
+  // Development-only diagnostics (upstream message, network code, ...)
+  details?: unknown;
+}
+
+export interface ApiErrorOptions {
+  message?: string;
+  retryAfter?: number;
+  requestId?: string;
+  issues?: FieldIssue[];
+  details?: unknown;
+}
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_ERRORS, value);
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly requestId?: string;
+  readonly issues?: FieldIssue[];
+  readonly details?: unknown;
+
+  constructor(public readonly code: ApiErrorCode, options: ApiErrorOptions = {}) {
+    super(options.message ?? API_ERRORS[code].message);
+    this.name = 'ApiError';
+    this.status = API_ERRORS[code].status;
+    this.retryable = API_ERRORS[code].retryable;
+    this.retryAfter = options.retryAfter;
+    this.requestId = options.requestId;
+    this.issues = options.issues;
+    this.details = options.details;
+  }
+
+  toBody(): ApiErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      ...(this.requestId && { requestId: this.requestId }),
+      ...(this.issues?.length && { issues: this.issues }),
+      ...(this.details !== undefined && { details: this.details })
+    };
+  }
+
+  // Rebuilds an error from a response body; returns null if the body is not an ApiErrorBody
+  static fromBody(body: unknown): ApiError | null {
+    if (!body || typeof body !== 'object' || !isApiErrorCode((body as ApiErrorBody).code)) {
+      return null;
+    }
+    const { code, error, retryAfter, requestId, issues, details } = body as ApiErrorBody;
+    return new ApiError(code, {
+      message: typeof error === 'string' && error ? error : undefined,
+      retryAfter: typeof retryAfter === 'number' ? retryAfter : undefined,
+      requestId,
+      issues: Array.isArray(issues) ? issues : undefined,
+      details
+    });
+  }
+}
@@ -0,0 +1,386 @@
+// Syllabus chapters by board, class and subject, with the key concepts each
+// chapter covers. Chapter names follow the board's textbook. This is a
+// starting set of commonly searched chapters, not the full syllabus; add a
+// chapter by appending it to the right group.
+
+export const BOARDS = [
+  'CBSE',
+  'ICSE',
+  'Maharashtra State Board',
+  'Tamil Nadu State Board',
+  'Karnataka State Board',
+  'Kerala State Board',
+  'West Bengal Board',
+  'UP Board'
+] as const;
+export type Board = typeof BOARDS[number];
+
+export const SUBJECTS = [
+  'Mathematics',
+  'Science',
+  'Physics',
+  'Chemistry',
+  'Biology',
+  'English',
+  'Social Studies',
+  'Computer Science'
+] as const;
+export type Subject = typeof SUBJECTS[number];
+
+export interface CurriculumChapter {
+  // Boards whose textbook has this chapter
+  boards: readonly Board[];
+  classLevel: number;
+  subject: Subject;
+  chapter: string;
+  concepts: string[];
+}
+
+// Boards that teach from the NCERT textbooks
+const NCERT: readonly Board[] = ['CBSE', 'UP Board', 'Karnataka State Board'];
+
+function group(boards: readonly Board[], classLevel: number, subject: Subject, list: [string, string[]][]): CurriculumChapter[] {
+  return list.map(([chapter, concepts]) => ({ boards, classLevel, subject, chapter, concepts }));
+}
+
+export const CURRICULUM: CurriculumChapter[] = [
+  // --- NCERT ---
+  ...group(NCERT, 6, 'Mathematics', [
+    ['Knowing Our Numbers', ['place value', 'large numbers', 'estimation', 'roman numerals']],
+    ['Whole Numbers', ['number line', 'predecessor', 'successor', 'properties of whole numbers']],
+    ['Fractions', ['proper fractions', 'improper fractions', 'mixed fractions', 'equivalent fractions']],
+    ['Decimals', ['tenths', 'hundredths', 'decimal places']],
+    ['Ratio and Proportion', ['ratio', 'proportion', 'unitary method']],
+    ['Basic Geometrical Ideas', ['line segment', 'ray', 'polygons', 'angles']]
+  ]),
+  ...group(NCERT, 7, 'Mathematics', [
+    ['Integers', ['negative numbers', 'properties of integers', 'multiplication of integers']],
+    ['Fractions and Decimals', ['multiplication of fractions', 'division of fractions', 'decimals']],
+    ['Simple Equations', ['equation', 'solving equations', 'transposing']],
+    ['Lines and Angles', ['complementary angles', 'supplementary angles', 'transversal', 'vertically opposite angles']],
+    ['The Triangle and its Properties', ['median', 'altitude', 'angle sum property', 'pythagoras property']],
+    ['Perimeter and Area', ['area of parallelogram', 'area of triangle', 'circumference of circle']]
+  ]),
+  ...group(NCERT, 8, 'Mathematics', [
+    ['Rational Numbers', ['rational numbers', 'additive inverse', 'multiplicative inverse']],
+    ['Linear Equations in One Variable', ['linear equations', 'variable on both sides']],
+    ['Squares and Square Roots', ['perfect squares', 'square roots', 'prime factorisation']],
+    ['Cubes and Cube Roots', ['perfect cubes', 'cube roots']],
+    ['Comparing Quantities', ['percentage', 'discount', 'profit and loss', 'compound interest']],
+    ['Algebraic Expressions and Identities', ['monomials', 'binomials', 'algebraic identities']],
+    ['Mensuration', ['surface area', 'volume of cube', 'volume of cylinder', 'area of trapezium']],
+    ['Exponents and Powers', ['exponents', 'laws of exponents', 'standard form']],
+    ['Direct and Inverse Proportions', ['direct proportion', 'inverse proportion']],
+    ['Factorisation', ['factorisation', 'common factors', 'division of polynomials']]
+  ]),
+  ...group(NCERT, 9, 'Mathematics', [
+    ['Number Systems', ['irrational numbers', 'real numbers', 'rationalising the denominator']],
+    ['Polynomials', ['zeroes of a polynomial', 'remainder theorem', 'factor theorem']],
+    ['Coordinate Geometry', ['cartesian plane', 'x-axis', 'y-axis', 'quadrants']],
+    ['Linear Equations in Two Variables', ['linear equation', 'solution of a linear equation']],
+    ['Lines and Angles', ['parallel lines', 'angle sum property', 'transversal']],
+    ['Triangles', ['congruence of triangles', 'sas rule', 'asa rule', 'sss rule', 'rhs rule']],
+    ['Quadrilaterals', ['parallelogram', 'mid-point theorem']],
+    ['Circles', ['chord', 'arc', 'cyclic quadrilateral']],
+    ["Heron's Formula", ["heron's formula", 'area of a triangle']],
+    ['Surface Areas and Volumes', ['cone', 'sphere', 'hemisphere', 'volume']],
+    ['Statistics', ['bar graph', 'histogram', 'frequency polygon']]
+  ]),
+  ...group(NCERT, 10, 'Mathematics', [
+    ['Real Numbers', ['fundamental theorem of arithmetic', 'hcf', 'lcm', 'irrational numbers']],
+    ['Polynomials', ['zeroes of a polynomial', 'quadratic polynomial', 'relationship between zeroes and coefficients']],
+    ['Pair of Linear Equations in Two Variables', ['substitution method', 'elimination method', 'consistent equations']],
+    ['Quadratic Equations', ['quadratic equations', 'quadratic formula', 'discriminant', 'nature of roots']],
+    ['Arithmetic Progressions', ['arithmetic progression', 'common difference', 'nth term', 'sum of n terms']],
+    ['Triangles', ['similar triangles', 'basic proportionality theorem', 'thales theorem']],
+    ['Coordinate Geometry', ['distance formula', 'section formula']],
+    ['Introduction to Trigonometry', ['trigonometry', 'trigonometric ratios', 'sine', 'cosine', 'tangent', 'trigonometric identities']],
+    ['Some Applications of Trigonometry', ['heights and distances', 'angle of elevation', 'angle of depression']],
+    ['Circles', ['tangent to a circle', 'number of tangents']],
+    ['Areas Related to Circles', ['area of sector', 'area of segment', 'length of arc']],
+    ['Surface Areas and Volumes', ['combination of solids', 'surface area', 'volume']],
+    ['Statistics', ['mean', 'median', 'mode', 'grouped data']],
+    ['Probability', ['probability', 'sample space', 'events']]
+  ]),
+  ...group(NCERT, 11, 'Mathematics', [
+    ['Sets', ['sets', 'subsets', 'venn diagrams', 'union', 'intersection']],
+    ['Trigonometric Functions', ['radian measure', 'trigonometric functions', 'sum and difference formulae']],
+    ['Complex Numbers and Quadratic Equations', ['complex numbers', 'iota', 'argand plane', 'modulus']],
+    ['Permutations and Combinations', ['permutations', 'combinations', 'factorial', 'fundamental principle of counting']],
+    ['Binomial Theorem', ['binomial theorem', 'pascal triangle', 'binomial coefficients']],
+    ['Sequences and Series', ['geometric progression', 'arithmetic mean', 'geometric mean']],
+    ['Straight Lines', ['slope of a line', 'point-slope form', 'intercept form']],
+    ['Conic Sections', ['parabola', 'ellipse', 'hyperbola', 'conic sections']],
+    ['Limits and Derivatives', ['limits', 'derivatives', 'first principle']],
+    ['Statistics', ['variance', 'standard deviation', 'mean deviation']],
+    ['Probability', ['random experiments', 'axiomatic probability', 'events']]
+  ]),
+  ...group(NCERT, 12, 'Mathematics', [
+    ['Relations and Functions', ['relations', 'functions', 'equivalence relation', 'one-one function', 'onto function']],
+    ['Matrices', ['matrices', 'transpose', 'symmetric matrix', 'matrix multiplication']],
+    ['Determinants', ['determinants', 'adjoint', 'inverse of a matrix', 'cramer']],
+    ['Continuity and Differentiability', ['continuity', 'differentiability', 'chain rule', 'implicit differentiation']],
+    ['Integrals', ['integration', 'integrals', 'definite integrals', 'integration by parts']],
+    ['Differential Equations', ['differential equations', 'order and degree', 'variable separable']],
+    ['Vector Algebra', ['vectors', 'dot product', 'cross product', 'scalar product']],
+    ['Probability', ['conditional probability', "bayes' theorem", 'random variable']]
+  ]),
+  ...group(NCERT, 7, 'Science', [
+    ['Nutrition in Plants', ['photosynthesis', 'autotrophic nutrition', 'heterotrophic nutrition', 'chlorophyll', 'stomata', 'parasitic plants']],
+    ['Respiration in Organisms', ['aerobic respiration', 'anaerobic respiration', 'breathing rate']],
+    ['Heat', ['conduction', 'convection', 'radiation', 'thermometer', 'sea breeze']],
+    ['Acids, Bases and Salts', ['indicators', 'litmus', 'neutralisation', 'turmeric']]
+  ]),
+  ...group(NCERT, 8, 'Science', [
+    ['Crop Production and Management', ['kharif crops', 'rabi crops', 'irrigation', 'manure', 'fertilisers']],
+    ['Microorganisms: Friend and Foe', ['microorganisms', 'bacteria', 'fungi', 'fermentation', 'vaccine']],
+    ['Synthetic Fibres and Plastics', ['synthetic fibres', 'nylon', 'polyester', 'plastics']],
+    ['Combustion and Flame', ['combustion', 'flame', 'ignition temperature', 'fuel efficiency']],
+    ['Cell — Structure and Functions', ['cell membrane', 'nucleus', 'cytoplasm', 'plant cell', 'animal cell']],
+    ['Force and Pressure', ['force', 'pressure', 'atmospheric pressure', 'contact forces']],
+    ['Friction', ['friction', 'static friction', 'sliding friction', 'rolling friction']],
+    ['Sound', ['vibration', 'amplitude', 'frequency', 'noise pollution']],
+    ['Chemical Effects of Electric Current', ['electroplating', 'electrolysis', 'conductors']]
+  ]),
+  ...group(NCERT, 9, 'Science', [
+    ['Matter in Our Surroundings', ['states of matter', 'evaporation', 'sublimation', 'latent heat']],
+    ['Is Matter Around Us Pure?', ['mixtures', 'solutions', 'colloids', 'suspensions', 'separation techniques']],
+    ['Atoms and Molecules', ['atoms', 'molecules', 'mole concept', 'atomic mass', 'laws of chemical combination']],
+    ['Structure of the Atom', ['electrons', 'protons', 'neutrons', 'bohr model', 'isotopes', 'valency']],
+    ['The Fundamental Unit of Life', ['cell', 'cell organelles', 'mitochondria', 'osmosis']],
+    ['Tissues', ['plant tissues', 'animal tissues', 'meristematic tissue', 'epithelial tissue']],
+    ['Motion', ['distance', 'displacement', 'velocity', 'acceleration', 'equations of motion']],
+    ['Force and Laws of Motion', ["newton's laws of motion", 'inertia', 'momentum', 'conservation of momentum']],
+    ['Gravitation', ['gravitation', 'universal law of gravitation', 'free fall', 'buoyancy', "archimedes' principle"]],
+    ['Work and Energy', ['work', 'kinetic energy', 'potential energy', 'power', 'conservation of energy']],
+    ['Sound', ['sound waves', 'echo', 'ultrasound', 'reflection of sound']],
+    ['Improvement in Food Resources', ['crop variety improvement', 'animal husbandry', 'fish production']]
+  ]),
+  ...group(NCERT, 10, 'Science', [
+    ['Chemical Reactions and Equations', ['chemical equations', 'balancing equations', 'oxidation', 'reduction', 'corrosion', 'rancidity']],
+    ['Acids, Bases and Salts', ['acids', 'bases', 'ph scale', 'salts', 'baking soda', 'bleaching powder']],
+    ['Metals and Non-metals', ['metals', 'non-metals', 'reactivity series', 'ionic compounds', 'extraction of metals']],
+    ['Carbon and its Compounds', ['covalent bond', 'hydrocarbons', 'functional groups', 'homologous series', 'soaps and detergents']],
+    ['Life Processes', ['photosynthesis', 'nutrition', 'respiration', 'transportation', 'excretion', 'digestion']],
+    ['Control and Coordination', ['nervous system', 'reflex action', 'hormones', 'plant hormones', 'brain']],
+    ['How do Organisms Reproduce?', ['asexual reproduction', 'sexual reproduction', 'fission', 'pollination', 'reproductive health']],
+    ['Heredity', ['heredity', 'genetics', 'mendel', 'dominant traits', 'sex determination']],
+    ['Light – Reflection and Refraction', ['reflection of light', 'refraction of light', 'mirror formula', 'lens formula', 'concave mirror', 'convex lens']],
+    ['The Human Eye and the Colourful World', ['human eye', 'myopia', 'hypermetropia', 'dispersion of light', 'scattering of light', 'rainbow']],
+    ['Electricity', ["ohm's law", 'resistance', 'electric current', 'potential difference', 'electric power', 'circuits']],
+    ['Magnetic Effects of Electric Current', ['magnetic field', 'solenoid', 'electromagnet', 'electric motor', "fleming's left-hand rule"]],
+    ['Our Environment', ['ecosystem', 'food chain', 'food web', 'ozone layer', 'biodegradable']]
+  ]),
+  ...group(NCERT, 11, 'Physics', [
+    ['Units and Measurements', ['si units', 'significant figures', 'dimensional analysis']],
+    ['Motion in a Straight Line', ['instantaneous velocity', 'uniform acceleration', 'kinematic equations']],
+    ['Laws of Motion', ["newton's laws", 'friction', 'circular motion', 'impulse']],
+    ['Work, Energy and Power', ['work-energy theorem', 'collisions', 'conservative forces']],
+    ['Gravitation', ["kepler's laws", 'escape velocity', 'orbital velocity', 'gravitational potential energy']],
+    ['Thermodynamics', ['laws of thermodynamics', 'heat engines', 'entropy', 'isothermal process', 'adiabatic process']],
+    ['Oscillations', ['simple harmonic motion', 'pendulum', 'periodic motion']],
+    ['Waves', ['transverse waves', 'longitudinal waves', 'standing waves', 'beats', 'doppler effect']]
+  ]),
+  ...group(NCERT, 12, 'Physics', [
+    ['Electric Charges and Fields', ["coulomb's law", 'electric field', 'electric dipole', "gauss's law"]],
+    ['Current Electricity', ['drift velocity', "kirchhoff's laws", 'wheatstone bridge', 'resistivity']],
+    ['Electromagnetic Induction', ["faraday's law", "lenz's law", 'self inductance', 'eddy currents']],
+    ['Ray Optics and Optical Instruments', ['total internal reflection', 'prism', 'microscope', 'telescope']],
+    ['Wave Optics', ["huygens principle", 'interference', 'diffraction', 'polarisation', "young's double slit"]],
+    ['Dual Nature of Radiation and Matter', ['photoelectric effect', 'de broglie wavelength', 'photons']],
+    ['Atoms', ['rutherford model', 'bohr model', 'hydrogen spectrum']],
+    ['Nuclei', ['nuclear fission', 'nuclear fusion', 'binding energy', 'mass defect']],
+    ['Semiconductor Electronics', ['semiconductors', 'p-n junction', 'diode', 'rectifier']]
+  ]),
+  ...group(NCERT, 11, 'Chemistry', [
+    ['Some Basic Concepts of Chemistry', ['mole concept', 'stoichiometry', 'molarity', 'empirical formula']],
+    ['Structure of Atom', ['quantum numbers', 'orbitals', 'aufbau principle', "hund's rule", 'electronic configuration']],
+    ['Chemical Bonding and Molecular Structure', ['vsepr theory', 'hybridisation', 'molecular orbital theory', 'hydrogen bonding']],
+    ['Thermodynamics', ['enthalpy', 'entropy', 'gibbs energy', "hess's law"]],
+    ['Equilibrium', ['chemical equilibrium', "le chatelier's principle", 'ionic equilibrium', 'buffer solutions']],
+    ['Organic Chemistry – Some Basic Principles and Techniques', ['iupac nomenclature', 'isomerism', 'inductive effect', 'resonance']],
+    ['Hydrocarbons', ['alkanes', 'alkenes', 'alkynes', 'aromatic hydrocarbons', 'benzene']]
+  ]),
+  ...group(NCERT, 12, 'Chemistry', [
+    ['Solutions', ["raoult's law", 'colligative properties', 'osmotic pressure', "henry's law"]],
+    ['Electrochemistry', ['electrochemical cells', 'nernst equation', 'conductance', 'electrolysis']],
+    ['Chemical Kinetics', ['rate of reaction', 'order of reaction', 'activation energy', 'half-life']],
+    ['The d- and f-Block Elements', ['transition elements', 'lanthanoids', 'actinoids']],
+    ['Coordination Compounds', ["werner's theory", 'ligands', 'crystal field theory']],
+    ['Haloalkanes and Haloarenes', ['haloalkanes', 'sn1', 'sn2', 'nucleophilic substitution']],
+    ['Alcohols, Phenols and Ethers', ['alcohols', 'phenols', 'ethers']],
+    ['Aldehydes, Ketones and Carboxylic Acids', ['aldehydes', 'ketones', 'carboxylic acids', 'aldol condensation']],
+    ['Amines', ['amines', 'diazonium salts']],
+    ['Biomolecules', ['carbohydrates', 'proteins', 'enzymes', 'vitamins', 'nucleic acids']]
+  ]),
+  ...group(NCERT, 11, 'Biology', [
+    ['The Living World', ['taxonomy', 'binomial nomenclature', 'taxonomic hierarchy']],
+    ['Biological Classification', ['five kingdom classification', 'monera', 'protista', 'viruses']],
+    ['Cell: The Unit of Life', ['cell theory', 'prokaryotic cells', 'eukaryotic cells', 'cell organelles']],
+    ['Cell Cycle and Cell Division', ['mitosis', 'meiosis', 'cell cycle']],
+    ['Photosynthesis in Higher Plants', ['photosynthesis', 'light reactions', 'calvin cycle', 'c4 pathway', 'photorespiration']],
+    ['Respiration in Plants', ['glycolysis', 'krebs cycle', 'electron transport system', 'fermentation']],
+    ['Breathing and Exchange of Gases', ['respiratory system', 'exchange of gases', 'lungs']],
+    ['Body Fluids and Circulation', ['blood', 'blood groups', 'heart', 'cardiac cycle', 'lymph']],
+    ['Neural Control and Coordination', ['neuron', 'nerve impulse', 'synapse', 'central nervous system']]
+  ]),
+  ...group(NCERT, 12, 'Biology', [
+    ['Sexual Reproduction in Flowering Plants', ['pollination', 'double fertilisation', 'seed formation']],
+    ['Human Reproduction', ['gametogenesis', 'menstrual cycle', 'fertilisation', 'embryo development']],
+    ['Principles of Inheritance and Variation', ["mendel's laws", 'inheritance', 'linkage', 'sex determination', 'genetic disorders']],
+    ['Molecular Basis of Inheritance', ['dna', 'rna', 'replication', 'transcription', 'translation', 'genetic code']],
+    ['Evolution', ['evolution', 'natural selection', 'origin of life', 'hardy-weinberg principle']],
+    ['Human Health and Disease', ['immunity', 'pathogens', 'cancer', 'drug abuse']],
+    ['Biotechnology: Principles and Processes', ['recombinant dna', 'restriction enzymes', 'pcr', 'cloning vectors']],
+    ['Organisms and Populations', ['population growth', 'population interactions', 'mutualism']],
+    ['Ecosystem', ['productivity', 'decomposition', 'energy flow', 'ecological pyramids']]
+  ]),
+  ...group(NCERT, 11, 'Computer Science', [
+    ['Getting Started with Python', ['python', 'variables', 'data types', 'operators']],
+    ['Flow of Control', ['if else', 'loops', 'for loop', 'while loop']],
+    ['Lists', ['lists', 'list methods', 'slicing']]
+  ]),
+  ...group(NCERT, 7, 'Social Studies', [
+    ['The Mughal Empire', ['mughal empire', 'akbar', 'mansabdari', 'zabt']]
+  ]),
+  ...group(NCERT, 9, 'Social Studies', [
+    ['The French Revolution', ['french revolution', 'estates general', 'liberty', 'reign of terror']],
+    ['What is Democracy? Why Democracy?', ['democracy', 'features of democracy']]
+  ]),
+  ...group(NCERT, 10, 'Social Studies', [
+    ['The Rise of Nationalism in Europe', ['nationalism', 'unification of germany', 'unification of italy']],
+    ['Nationalism in India', ['non-cooperation movement', 'civil disobedience movement', 'salt march', 'freedom struggle']],
+    ['Resources and Development', ['resources', 'soil types', 'land use']],
+    ['Water Resources', ['dams', 'rainwater harvesting', 'multipurpose river projects']],
+    ['Agriculture', ['types of farming', 'cropping seasons', 'major crops']],
+    ['Power Sharing', ['power sharing', 'belgium', 'sri lanka']],
+    ['Federalism', ['federalism', 'decentralisation', 'panchayati raj']],
+    ['Development', ['development', 'per capita income', 'human development index']],
+    ['Money and Credit', ['money', 'credit', 'self help groups', 'barter system']],
+    ['Globalisation and the Indian Economy', ['globalisation', 'multinational corporations', 'liberalisation']]
+  ]),
+  ...group(NCERT, 10, 'English', [
+    ['A Letter to God', ['a letter to god', 'lencho']],
+    ['Nelson Mandela: Long Walk to Freedom', ['nelson mandela', 'apartheid']]
+  ]),
+
+  // --- ICSE ---
+  ...group(['ICSE'], 10, 'Physics', [
+    ['Force', ['moment of force', 'couple', 'centre of gravity', 'uniform circular motion']],
+    ['Work, Energy and Power', ['work', 'energy', 'power', 'conservation of energy']],
+    ['Machines', ['machines', 'levers', 'pulleys', 'mechanical advantage', 'efficiency']],
+    ['Refraction of Light at Plane Surfaces', ['refraction', 'refractive index', 'total internal reflection', 'critical angle']],
+    ['Current Electricity', ["ohm's law", 'resistance', 'series and parallel', 'emf']],
+    ['Radioactivity', ['radioactivity', 'alpha particles', 'beta particles', 'gamma rays', 'nuclear energy']]
+  ]),
+  ...group(['ICSE'], 10, 'Chemistry', [
+    ['Periodic Table, Periodic Properties and Variations of Properties', ['periodic table', 'periodic properties', 'atomic radius', 'ionisation potential', 'electronegativity']],
+    ['Chemical Bonding', ['electrovalent bond', 'covalent bond', 'coordinate bond']],
+    ['Acids, Bases and Salts', ['acids', 'bases', 'salts', 'ph']],
+    ['Mole Concept and Stoichiometry', ['mole concept', "avogadro's law", 'gay-lussac', 'vapour density']],
+    ['Electrolysis', ['electrolysis', 'electrolytes', 'electroplating', 'electrorefining']],
+    ['Metallurgy', ['metallurgy', 'ores', 'alloys', 'extraction of aluminium']],
+    ['Organic Chemistry', ['organic compounds', 'alkanes', 'alkenes', 'alkynes', 'homologous series']]
+  ]),
+  ...group(['ICSE'], 10, 'Biology', [
+    ['Cell Cycle and Cell Division', ['cell cycle', 'mitosis', 'meiosis']],
+    ['Genetics', ['genetics', 'mendel', 'monohybrid cross', 'dihybrid cross', 'sex-linked inheritance']],
+    ['Transpiration', ['transpiration', 'stomata', 'guttation']],
+    ['Photosynthesis', ['photosynthesis', 'chlorophyll', 'light reaction', 'dark reaction']],
+    ['The Circulatory System', ['circulatory system', 'heart', 'blood vessels', 'blood']],
+    ['The Nervous System', ['nervous system', 'brain', 'reflex action', 'sense organs']],
+    ['The Endocrine System', ['endocrine system', 'hormones', 'pituitary gland', 'thyroid']]
+  ]),
+  ...group(['ICSE'], 10, 'Mathematics', [
+    ['Goods and Services Tax', ['gst', 'input tax credit']],
+    ['Banking', ['recurring deposit', 'banking']],
+    ['Shares and Dividend', ['shares', 'dividend', 'market value']],
+    ['Linear Inequations', ['linear inequations', 'solution set']],
+    ['Quadratic Equations', ['quadratic equations', 'discriminant', 'nature of roots']],
+    ['Matrices', ['matrices', 'matrix multiplication']],
+    ['Arithmetic Progression', ['arithmetic progression', 'nth term', 'sum of n terms']],
+    ['Trigonometry', ['trigonometric identities', 'heights and distances']],
+    ['Probability', ['probability', 'sample space']]
+  ]),
+
+  // --- Maharashtra State Board (SSC) ---
+  ...group(['Maharashtra State Board'], 10, 'Science', [
+    ['Gravitation', ['gravitation', "kepler's laws", 'free fall', 'escape velocity']],
+    ['Periodic Classification of Elements', ['periodic table', "mendeleev's periodic table", 'modern periodic table']],
+    ['Chemical Reactions and Equations', ['chemical reactions', 'balancing equations', 'oxidation', 'reduction']],
+    ['Effects of Electric Current', ['heating effect of current', 'electric motor', 'electromagnetic induction']],
+    ['Heat', ['specific heat capacity', 'latent heat', 'regelation', 'dew point']],
+    ['Refraction of Light', ['refraction', 'refractive index', 'dispersion of light']],
+    ['Lenses', ['convex lens', 'concave lens', 'human eye', 'lens formula']],
+    ['Carbon Compounds', ['carbon compounds', 'hydrocarbons', 'functional groups']],
+    ['Space Missions', ['space missions', 'satellites', 'isro']],
+    ['Heredity and Evolution', ['heredity', 'evolution', 'dna', 'mutation']],
+    ['Life Processes in Living Organisms', ['cell division', 'respiration', 'nutrition']],
+    ['Towards Green Energy', ['green energy', 'solar energy', 'wind energy', 'hydroelectric energy']]
+  ]),
+  ...group(['Maharashtra State Board'], 10, 'Mathematics', [
+    ['Linear Equations in Two Variables', ["cramer's rule", 'graphical method', 'linear equations']],
+    ['Quadratic Equations', ['quadratic equations', 'completing the square', 'quadratic formula']],
+    ['Arithmetic Progression', ['arithmetic progression', 'nth term', 'sum of n terms']],
+    ['Financial Planning', ['gst', 'shares', 'mutual funds', 'brokerage']],
+    ['Similarity', ['similar triangles', 'basic proportionality theorem']],
+    ['Pythagoras Theorem', ['pythagoras theorem', 'pythagorean triplet', 'apollonius theorem']]
+  ]),
+
+  // --- Tamil Nadu State Board (Samacheer Kalvi) ---
+  ...group(['Tamil Nadu State Board'], 10, 'Science', [
+    ['Laws of Motion', ["newton's laws of motion", 'inertia', 'momentum', 'moment of force']],
+    ['Optics', ['refraction', 'lenses', 'human eye', 'scattering of light']],
+    ['Thermal Physics', ['gas laws', 'linear expansion', 'ideal gas equation']],
+    ['Electricity', ["ohm's law", 'resistance', 'heating effect of current']],
+    ['Acoustics', ['sound waves', 'echo', 'doppler effect']],
+    ['Nuclear Physics', ['radioactivity', 'nuclear fission', 'nuclear fusion']],
+    ['Periodic Classification of Elements', ['modern periodic table', 'periodic trends', 'metallurgy']],
+    ['Solutions', ['solubility', 'saturated solution', 'hydrated salts']],
+    ['Plant Anatomy and Plant Physiology', ['photosynthesis', 'plant tissues', 'respiration']],
+    ['Heredity', ['heredity', 'mendel', 'chromosomes', 'dna']]
+  ]),
+  ...group(['Tamil Nadu State Board'], 10, 'Mathematics', [
+    ['Relations and Functions', ['relations', 'functions', 'cartesian product']],
+    ['Numbers and Sequences', ["euclid's division lemma", 'arithmetic progression', 'geometric progression']],
+    ['Algebra', ['quadratic equations', 'matrices', 'polynomials']],
+    ['Trigonometry', ['trigonometric identities', 'heights and distances']],
+    ['Statistics and Probability', ['standard deviation', 'coefficient of variation', 'probability']]
+  ]),
+
+  // --- Kerala State Board (SCERT) ---
+  ...group(['Kerala State Board'], 10, 'Physics', [
+    ['Effects of Electric Current', ['heating effect of current', "joule's law", 'electric power']],
+    ['Magnetic Effect of Electric Current', ['magnetic field', 'electric motor', 'loudspeaker']],
+    ['Electromagnetic Induction', ['electromagnetic induction', 'generator', 'transformer']],
+    ['Reflection of Light', ['spherical mirrors', 'mirror formula', 'magnification']],
+    ['Refraction of Light', ['refraction', 'lenses', 'refractive index']]
+  ]),
+  ...group(['Kerala State Board'], 10, 'Chemistry', [
+    ['Periodic Table and Electronic Configuration', ['periodic table', 'subshell electronic configuration', 'block']],
+    ['Gas Laws and Mole Concept', ["boyle's law", "charles's law", 'mole concept']],
+    ['Reactivity Series and Electrochemistry', ['reactivity series', 'galvanic cell', 'electrolysis']]
+  ]),
+  ...group(['Kerala State Board'], 10, 'Biology', [
+    ['Sensations and Responses', ['nervous system', 'neuron', 'brain', 'reflex action']],
+    ['Keeping Diseases Away', ['diseases', 'pathogens', 'vaccination']],
+    ['Unravelling Genetic Mysteries', ['genetics', 'dna', 'mendel']]
+  ]),
+  ...group(['Kerala State Board'], 10, 'Mathematics', [
+    ['Arithmetic Sequences', ['arithmetic sequences', 'common difference', 'sum of terms']],
+    ['Mathematics of Chance', ['probability', 'chance']],
+    ['Second Degree Equations', ['second degree equations', 'quadratic equations', 'discriminant']]
+  ]),
+
+  // --- West Bengal Board (Madhyamik) ---
+  ...group(['West Bengal Board'], 10, 'Science', [
+    ['Behaviour of Gases', ["boyle's law", "charles's law", 'ideal gas equation']],
+    ['Thermal Phenomena', ['thermal expansion', 'thermal conductivity']],
+    ['Light', ['refraction', 'lenses', 'dispersion of light', 'human eye']],
+    ['Current Electricity', ["ohm's law", 'resistance', 'electromagnetic induction']],
+    ['Atomic Nucleus', ['radioactivity', 'nuclear fission', 'nuclear fusion']],
+    ['Control and Coordination in Living Organisms', ['plant hormones', 'nervous system', 'endocrine system']],
+    ['Continuity of Life', ['cell division', 'mitosis', 'meiosis', 'reproduction']],
+    ['Heredity and Some Common Genetic Diseases', ['heredity', 'mendel', 'thalassemia', 'colour blindness']]
+  ])
+];
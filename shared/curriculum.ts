@@ -0,0 +1,200 @@
+import { BOARDS, Board, CURRICULUM, CurriculumChapter, Subject } from './curriculum-data';
+
+export { BOARDS, CURRICULUM, SUBJECTS } from './curriculum-data';
+export type { Board, CurriculumChapter, Subject } from './curriculum-data';
+
+// What the builders know about a topic's place in the syllabus. The client
+// detects it from the topic and sends it with tag and analysis requests.
+export interface DetectedMeta {
+  class?: number;
+  board?: string;
+  subject?: string;
+  chapter?: string;
+}
+
+const BOARD_PATTERNS: { board: Board; pattern: RegExp }[] = [
+  { board: 'CBSE', pattern: /\b(cbse|ncert)\b/i },
+  { board: 'ICSE', pattern: /\b(icse|isc|cisce)\b/i },
+  { board: 'Maharashtra State Board', pattern: /\b(maharashtra|msbshse)\b/i },
+  { board: 'Tamil Nadu State Board', pattern: /\b(tamil ?nadu|samacheer|tn (state )?board)\b/i },
+  { board: 'Karnataka State Board', pattern: /\b(karnataka|kseeb|kseab)\b/i },
+  { board: 'Kerala State Board', pattern: /\b(kerala)\b/i },
+  { board: 'West Bengal Board', pattern: /\b(west bengal|wbbse|madhyamik)\b/i },
+  { board: 'UP Board', pattern: /\b(up board|upmsp|uttar pradesh)\b/i }
+];
+
+// "class 8", "grade 7", "std 9", "standard 10", "10th class", "12th"
+// An ordinal counts only next to a class word: "10th class", "class 10th", not "3rd law"
+const CLASS_PATTERN = /\b(?:class|grade|std|standard)\s*(\d{1,2})(?:st|nd|rd|th)?\b|\b(\d{1,2})(?:st|nd|rd|th)\s*(?:class|grade|std|standard)\b/i;
+
+// Used when no chapter matches
+const SUBJECT_KEYWORDS: { subject: Subject; pattern: RegExp }[] = [
+  { subject: 'Mathematics', pattern: /\b(math|maths|mathematics|algebra|geometry|arithmetic|calculus)\b/i },
+  { subject: 'Physics', pattern: /\bphysics\b/i },
+  { subject: 'Chemistry', pattern: /\bchemistry\b/i },
+  { subject: 'Biology', pattern: /\bbiology\b/i },
+  { subject: 'Science', pattern: /\b(science|evs)\b/i },
+  { subject: 'English', pattern: /\b(english|grammar|literature|poem|essay)\b/i },
+  { subject: 'Social Studies', pattern: /\b(history|geography|civics|economics|political science|social studies)\b/i },
+  { subject: 'Computer Science', pattern: /\b(computer|coding|programming|python|java)\b/i }
+];
+
+// Classes 9 and 10 study one combined science
+const SPLIT_SCIENCE_FROM_CLASS = 11;
+
+// Detection without a class prefers chapters nearest this one
+const DEFAULT_CLASS = 10;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive whole-phrase match; apostrophes and dashes in the term are optional
+function mentions(text: string, term: string): boolean {
+  const pattern = escapeRegExp(term.toLowerCase()).replace(/'/g, "'?").replace(/[-–—]/g, '[-–—\\s]?');
+  return new RegExp(`(?<!\\w)${pattern}(?!\\w)`, 'i').test(text);
+}
+
+function detectBoard(text: string): Board | undefined {
+  return BOARD_PATTERNS.find(entry => entry.pattern.test(text))?.board;
+}
+
+function detectClass(text: string): number | undefined {
+  const match = text.match(CLASS_PATTERN);
+  const level = match ? parseInt(match[1] || match[2], 10) : NaN;
+  return level >= 1 && level <= 12 ? level : undefined;
+}
+
+function detectSubject(text: string, classLevel?: number): Subject | undefined {
+  const subject = SUBJECT_KEYWORDS.find(entry => entry.pattern.test(text))?.subject;
+  const combinedScience = classLevel !== undefined && classLevel < SPLIT_SCIENCE_FROM_CLASS;
+  return combinedScience && (subject === 'Physics' || subject === 'Chemistry' || subject === 'Biology') ? 'Science' : subject;
+}
+
+// A chapter title counts more than one of its concepts, and longer phrases more than single words
+function chapterScore(text: string, entry: CurriculumChapter): number {
+  const weigh = (term: string, weight: number) => mentions(text, term) ? weight * term.split(/\s+/).length : 0;
+  return weigh(entry.chapter, 3) + entry.concepts.reduce((sum, concept) => sum + weigh(concept, 2), 0);
+}
+
+function inScope(entry: CurriculumChapter, board?: string, classLevel?: number, subject?: string): boolean {
+  return (!board || entry.boards.includes(board as Board))
+    && (classLevel === undefined || entry.classLevel === classLevel)
+    && (!subject || entry.subject === subject);
+}
+
+/**
+ * The chapter a free-text topic is most likely about, limited to the board
+ * and class when they are known. Ties go to CBSE, then to the class nearest 10.
+ */
+export function findChapter(text: string, scope: { board?: string; classLevel?: number } = {}): CurriculumChapter | undefined {
+  let best: { entry: CurriculumChapter; score: number } | undefined;
+  for (const entry of CURRICULUM) {
+    if (!inScope(entry, scope.board, scope.classLevel)) continue;
+    const score = chapterScore(text, entry);
+    if (score === 0) continue;
+    if (!best || score > best.score || (score === best.score && isPreferred(entry, best.entry))) {
+      best = { entry, score };
+    }
+  }
+  return best?.entry;
+}
+
+function isPreferred(a: CurriculumChapter, b: CurriculumChapter): boolean {
+  const aCbse = a.boards.includes('CBSE');
+  if (aCbse !== b.boards.includes('CBSE')) return aCbse;
+  return Math.abs(a.classLevel - DEFAULT_CLASS) < Math.abs(b.classLevel - DEFAULT_CLASS);
+}
+
+/**
+ * Board, class, subject and chapter mentioned in (or implied by) a topic.
+ * Fields that cannot be worked out are left out rather than guessed. A class
+ * from the defaults (such as a class picker) is the learner's own choice, so it
+ * wins over a class named in the topic.
+ */
+export function detectCurriculum(text: string, defaults: { classLevel?: number } = {}): DetectedMeta {
+  const board = detectBoard(text);
+  const classLevel = defaults.classLevel ?? detectClass(text);
+  // Most students follow CBSE, so without a board its chapters are tried first
+  const chapter = board
+    ? findChapter(text, { board, classLevel })
+    : findChapter(text, { board: 'CBSE', classLevel }) ?? findChapter(text, { classLevel });
+  const meta: DetectedMeta = {};
+
+  if (board) meta.board = board;
+  const level = classLevel ?? chapter?.classLevel;
+  if (level !== undefined) meta.class = level;
+  const subject = chapter?.subject ?? detectSubject(text, level);
+  if (subject) meta.subject = subject;
+  if (chapter) meta.chapter = chapter.chapter;
+  return meta;
+}
+
+/**
+ * The taxonomy entry a DetectedMeta names, or undefined when its chapter is
+ * not in the taxonomy (or does not fit its board, class and subject).
+ */
+export function resolveChapter(meta: DetectedMeta | undefined): CurriculumChapter | undefined {
+  const chapter = meta?.chapter?.trim().toLowerCase();
+  if (!chapter) return undefined;
+  return CURRICULUM.find(entry => entry.chapter.toLowerCase() === chapter && inScope(entry, meta!.board, meta!.class, meta!.subject));
+}
+
+export interface TopicSuggestion {
+  // A concept or chapter title to use as the topic
+  topic: string;
+  chapter: string;
+  subject: Subject;
+  classLevel: number;
+}
+
+function titleCase(text: string): string {
+  return text.replace(/(^|\s)(\w)/g, (_, space, letter) => space + letter.toUpperCase());
+}
+
+function suggestionsFor(query: string, board?: string, classLevel?: number): TopicSuggestion[] {
+  const wordStart = new RegExp(`(?<!\\w)${escapeRegExp(query)}`, 'i');
+  const results: { suggestion: TopicSuggestion; rank: number }[] = [];
+  for (const entry of CURRICULUM) {
+    if (!inScope(entry, board, classLevel)) continue;
+    for (const term of [entry.chapter, ...entry.concepts]) {
+      const index = term.search(wordStart);
+      if (index < 0) continue;
+      results.push({
+        suggestion: { topic: term === entry.chapter ? term : titleCase(term), chapter: entry.chapter, subject: entry.subject, classLevel: entry.classLevel },
+        // Terms that start with the query come first, then shorter terms
+        rank: (index === 0 ? 0 : 1000) + term.length
+      });
+    }
+  }
+  return results.sort((a, b) => a.rank - b.rank).map(result => result.suggestion);
+}
+
+/**
+ * Syllabus topics for a topic box autocomplete. Matches the whole query
+ * first, then the word being typed, within the board and class when given.
+ */
+export function suggestTopics(query: string, scope: { board?: string; classLevel?: number } = {}, limit = 6): TopicSuggestion[] {
+  const text = query.trim();
+  const lastWord = text.split(/\s+/).pop() ?? '';
+  const queries = [text, lastWord].filter((q, i, all) => q.length >= 3 && all.indexOf(q) === i);
+
+  for (const q of queries) {
+    const matches = suggestionsFor(q, scope.board, scope.classLevel);
+    if (matches.length === 0) continue;
+    const seen = new Set<string>();
+    return matches
+      .filter(match => !seen.has(match.topic.toLowerCase()) && !!seen.add(match.topic.toLowerCase()))
+      // Nothing to suggest if the query already is the topic
+      .filter(match => match.topic.toLowerCase() !== text.toLowerCase())
+      .slice(0, limit);
+  }
+  return [];
+}
+
+/** The topic text after picking a suggestion: it replaces the whole query, or just the word being typed. */
+export function completeTopic(query: string, suggestion: TopicSuggestion): string {
+  const text = query.trim();
+  if (new RegExp(`(?<!\\w)${escapeRegExp(text)}`, 'i').test(suggestion.topic)) return suggestion.topic;
+  return text.replace(/\S+$/, suggestion.topic);
+}
@@ -0,0 +1,14 @@
+// Personal details the server removes from student text before it reaches the model.
+// Responses from the analyze routes list them so the UI can tell the student.
+
+export type PiiKind = 'name' | 'school' | 'email' | 'phone' | 'id';
+
+export interface PiiRedaction {
+  kind: PiiKind;
+  // What the model saw instead, e.g. '[NAME_1]'
+  placeholder: string;
+  // What the student typed
+  value: string;
+  // Whether the value was put back into the response (names and schools) or left as the placeholder
+  restored: boolean;
+}
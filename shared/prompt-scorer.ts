@@ -0,0 +1,211 @@
+// --- Offline prompt scorer ---
+// A deterministic stand-in for the model's analysis, used when no provider is
+// configured or the model call fails, and by the mock provider. It checks the
+// rubric the analyze system instruction describes and fills the improved prompt
+// from templates. The analyzer also runs it in the browser to re-score edits to
+// the improved prompt without spending an analysis.
+
+import type { AnnotationType, QuotedAnnotation } from './annotations';
+import { Rubric, RubricDimension } from './rubric';
+
+export interface LocalAnalysis {
+  score: number;
+  rubric: Rubric;
+  feedback: string;
+  annotations: QuotedAnnotation[];
+  improvedPrompt: {
+    role: string | null;
+    context: string | null;
+    task: string;
+    exemplars: string[] | null;
+    persona: string | null;
+    format: string | null;
+    tone: string | null;
+  };
+}
+
+type RubricItem = Exclude<RubricDimension, 'clarity'>;
+
+const RUBRIC: { name: RubricItem; label: string; pattern: RegExp; points: number; found: string; tip: string }[] = [
+  {
+    name: 'role', label: 'a role', points: 15,
+    pattern: /\b(act as|you are|pretend to be|as an? (teacher|tutor|expert|coach|scientist|historian|examiner))\b/i,
+    found: 'You tell the AI who to be.',
+    tip: 'Give the AI a role, e.g. "Act as a biology teacher".'
+  },
+  {
+    name: 'context', label: 'context', points: 15,
+    pattern: /\b(for an?|student|class \d+|grade|beginner|year[- ]old|audience|i am|i'm|my (exam|test|project|homework|assignment)|preparing for|because|so that)\b/i,
+    found: 'You say who the answer is for or why you need it.',
+    tip: 'Say who the answer is for and why, e.g. "for a class 8 student preparing for a test".'
+  },
+  {
+    name: 'specificity', label: 'specific details', points: 15,
+    pattern: /\b(\d+|focus on|only|avoid|include|exactly|at least|at most|under|such as|including|specifically)\b/i,
+    found: 'You give limits or details about what to cover.',
+    tip: 'Be specific: say how much you want and what to focus on, e.g. "5 questions on the light reactions".'
+  },
+  {
+    name: 'format', label: 'a format', points: 15,
+    pattern: /\b(bullet|table|list|steps?|json|paragraph|summary|format|outline|flashcards?|essay|diagram)\b/i,
+    found: 'You ask for a particular format.',
+    tip: 'Ask for a format such as bullet points or a table.'
+  },
+  {
+    name: 'tone', label: 'a tone', points: 10,
+    pattern: /\b(tone|friendly|formal|simple|casual|encouraging|funny|serious|academic)\b/i,
+    found: 'You describe the tone you want.',
+    tip: 'Describe the tone you want, e.g. "simple and friendly".'
+  },
+  {
+    name: 'examples', label: 'examples', points: 10,
+    pattern: /\b(example|examples|analogy|e\.g\.|for instance|like this)\b/i,
+    found: 'You ask for examples or an analogy.',
+    tip: 'Ask for an example or analogy.'
+  }
+];
+
+// Sub-scores out of 10 for a rubric item the prompt has or lacks
+const FOUND_SUB_SCORE = 8;
+const MISSING_SUB_SCORE = 2;
+
+const BASE_POINTS = 10;
+
+// Up to 10 points for length: very short prompts rarely carry enough detail
+const LENGTH_STEPS: { minWords: number; points: number }[] = [
+  { minWords: 20, points: 10 },
+  { minWords: 8, points: 5 }
+];
+const SHORT_PROMPT_TIP = 'Add a little more detail; prompts under 8 words rarely say enough.';
+const LONG_PROMPT_WORDS = 150;
+const LONG_PROMPT_TIP = 'Long prompts are fine, but put the main task in the first sentence.';
+
+const MAX_TIPS = 3;
+
+// Subject words that make a better default role than "a patient teacher"
+const SUBJECT_ROLES: { pattern: RegExp; role: string }[] = [
+  { pattern: /\b(photosynthesis|cell|biology|plant|animal|human body|digestion|genetics)\b/i, role: 'an experienced biology teacher' },
+  { pattern: /\b(physics|force|motion|gravity|energy|electricity|light|magnet)\w*\b/i, role: 'an experienced physics teacher' },
+  { pattern: /\b(chemistry|chemical|acid|atom|molecule|reaction|element)\w*\b/i, role: 'an experienced chemistry teacher' },
+  { pattern: /\b(math|maths|algebra|geometry|equation|fraction|trigonometry|calculus)\w*\b/i, role: 'an experienced maths teacher' },
+  { pattern: /\b(history|war|empire|revolution|independence|freedom struggle)\b/i, role: 'an experienced history teacher' },
+  { pattern: /\b(essay|grammar|poem|story|novel|english|writing)\b/i, role: 'an experienced English teacher' },
+  { pattern: /\b(code|coding|program|python|java|javascript|algorithm)\w*\b/i, role: 'an experienced programming tutor' }
+];
+
+// Phrases worth pointing at, each with a replacement
+const ANNOTATION_RULES: { type: AnnotationType; message: string; fixes: Record<string, string> }[] = [
+  {
+    type: 'vague_verb',
+    message: 'This verb does not say what kind of answer you want.',
+    fixes: {
+      'tell me about': 'explain, step by step,',
+      'talk about': 'explain',
+      'write about': 'write a 200-word summary of',
+      'help me with': 'explain how to solve',
+      'give me info on': 'list the key facts about',
+      'know about': 'understand'
+    }
+  },
+  {
+    type: 'unclear_scope',
+    message: 'This asks for too much; the AI will have to guess what matters.',
+    fixes: {
+      'everything about': 'the three most important ideas about',
+      'all about': 'the main ideas of',
+      'anything about': 'the main ideas of',
+      'stuff': 'the key ideas',
+      'things': 'the key ideas'
+    }
+  }
+];
+
+// A prompt that opens with one of these refers back to something the AI never saw
+const LEADING_PRONOUN = /^(it|this|that|they|these|those)\b/i;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Without a model, clarity can only be judged by length
+function clarityScore(words: number): Rubric['clarity'] {
+  if (words < 8) return { score: 3, reason: SHORT_PROMPT_TIP };
+  if (words > LONG_PROMPT_WORDS) return { score: 6, reason: LONG_PROMPT_TIP };
+  return { score: 7, reason: 'Your prompt is long enough to say what you want.' };
+}
+
+function findAnnotations(text: string, hasContext: boolean): QuotedAnnotation[] {
+  const annotations: QuotedAnnotation[] = [];
+
+  const pronoun = text.match(LEADING_PRONOUN);
+  if (pronoun) {
+    annotations.push({
+      type: 'ambiguous_pronoun',
+      text: pronoun[0],
+      message: `The AI cannot see what "${pronoun[0]}" refers to.`,
+      fix: '[name the topic]'
+    });
+  }
+
+  for (const rule of ANNOTATION_RULES) {
+    for (const [phrase, fix] of Object.entries(rule.fixes)) {
+      const match = text.match(new RegExp(`\\b${phrase}\\b`, 'i'));
+      if (match) annotations.push({ type: rule.type, text: match[0], message: rule.message, fix });
+    }
+  }
+
+  // Without an audience, point at the end of the first sentence, where one usually goes
+  const lastWord = text.split(/[.?!\n]/)[0].trim().match(/[\w'-]+$/)?.[0];
+  if (!hasContext && lastWord) {
+    annotations.push({
+      type: 'missing_audience',
+      text: lastWord,
+      message: 'Say who the answer is for, so the AI pitches it at the right level.',
+      fix: `${lastWord} for a school student`
+    });
+  }
+  return annotations;
+}
+
+/** Scores a prompt against the rubric (0-100) and builds feedback and an improved prompt. */
+export function scorePrompt(studentPrompt: string): LocalAnalysis {
+  const text = studentPrompt.trim();
+  const words = wordCount(text);
+  const present = RUBRIC.filter(item => item.pattern.test(text));
+  const missing = RUBRIC.filter(item => !item.pattern.test(text));
+
+  const lengthPoints = LENGTH_STEPS.find(step => words >= step.minWords)?.points ?? 0;
+  const score = Math.min(100, BASE_POINTS + lengthPoints + present.reduce((sum, item) => sum + item.points, 0));
+
+  const strengths = present.length > 0
+    ? `Good job including ${present.map(item => item.label).join(', ')}.`
+    : 'Your prompt states a topic, which is a start.';
+  const tips = missing.map(item => item.tip);
+  if (words < 8) tips.unshift(SHORT_PROMPT_TIP);
+  if (words > LONG_PROMPT_WORDS) tips.push(LONG_PROMPT_TIP);
+  const feedback = `${strengths} ${tips.slice(0, MAX_TIPS).join(' ')}`.trim();
+
+  const has = (name: RubricItem) => present.some(item => item.name === name);
+  const rubric = { clarity: clarityScore(words) } as Rubric;
+  for (const item of RUBRIC) {
+    rubric[item.name] = has(item.name)
+      ? { score: FOUND_SUB_SCORE, reason: item.found }
+      : { score: MISSING_SUB_SCORE, reason: item.tip };
+  }
+
+  return {
+    score,
+    rubric,
+    feedback,
+    annotations: findAnnotations(text, has('context')),
+    improvedPrompt: {
+      role: has('role') ? null : (SUBJECT_ROLES.find(subject => subject.pattern.test(text))?.role ?? 'a patient teacher'),
+      context: has('context') ? null : 'the reader is a school student meeting this topic for the first time',
+      task: text.replace(/[.?!]+$/, ''),
+      exemplars: has('examples') ? null : ['one everyday example'],
+      persona: null,
+      format: has('format') ? null : 'short bullet points',
+      tone: has('tone') ? null : 'simple and encouraging'
+    }
+  };
+}
@@ -0,0 +1,16 @@
+// The parts of a prompt the analyze routes score separately, next to the overall score.
+// The model and the offline scorer both return one entry per dimension.
+
+export const RUBRIC_DIMENSIONS = ['clarity', 'context', 'specificity', 'role', 'format', 'tone', 'examples'] as const;
+export type RubricDimension = typeof RUBRIC_DIMENSIONS[number];
+
+// Sub-scores use a 0-10 scale
+export const RUBRIC_MAX_SCORE = 10;
+
+export interface RubricScore {
+  score: number;
+  // One short sentence explaining the score
+  reason: string;
+}
+
+export type Rubric = Record<RubricDimension, RubricScore>;
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { contradictsSelection, detectTagConflicts, OUTPUT_FORMAT_CATEGORY, type ConflictTag } from './tag-conflicts';
+
+const tags = (...texts: string[]): ConflictTag[] => texts.map(text => ({ text }));
+const byRule = (selected: ConflictTag[], ruleId: string) => detectTagConflicts(selected).find(found => found.ruleId === ruleId);
+
+describe('detectTagConflicts: pair rules', () => {
+  it('puts "Avoid Examples" on the no-examples side', () => {
+    const found = byRule(tags('Include Real Examples', 'Avoid Examples'), 'examples');
+    assert.ok(found);
+    assert.equal(found.severity, 'error');
+    assert.deepEqual(found.tags, ['Include Real Examples', 'Avoid Examples']);
+  });
+
+  it('does not let a negated tag conflict with itself', () => {
+    assert.equal(byRule(tags('Avoid Examples', 'No Jargon'), 'examples'), undefined);
+    assert.equal(byRule(tags('Avoid Jargon'), 'jargon'), undefined);
+  });
+
+  it('matches other forms of a word for semantic rules ("summary", "summarize")', () => {
+    assert.ok(byRule(tags('Summarize The Chapter', 'Detailed Explanation'), 'length'));
+    assert.ok(byRule(tags('Chapter Summaries', 'In-Depth Analysis'), 'length'));
+    assert.ok(byRule(tags('Simply Put', 'Advanced Concepts'), 'level'));
+  });
+
+  it('matches keyword terms only as written', () => {
+    assert.equal(byRule(tags('Storytelling', 'Bullet Points'), 'layout'), undefined);
+    assert.ok(byRule(tags('Tell It As A Story', 'Bullet Points'), 'layout'));
+  });
+
+  it('matches whole words, not parts of words', () => {
+    assert.equal(byRule(tags('Counterexamples First', 'No Examples'), 'examples'), undefined);
+    assert.equal(byRule(tags('Timetable', 'Essay Style'), 'layout'), undefined);
+  });
+});
+
+describe('detectTagConflicts: suggested removal', () => {
+  it('suggests dropping the smaller side', () => {
+    const found = byRule(tags('Keep It Short', 'Detailed Steps', 'Comprehensive Coverage'), 'length');
+    assert.deepEqual(found?.suggestedRemoval, ['Keep It Short']);
+  });
+
+  it('suggests dropping the side picked last on a tie', () => {
+    assert.deepEqual(byRule(tags('Include Examples', 'Skip Examples'), 'examples')?.suggestedRemoval, ['Skip Examples']);
+    assert.deepEqual(byRule(tags('Skip Examples', 'Include Examples'), 'examples')?.suggestedRemoval, ['Include Examples']);
+  });
+});
+
+describe('detectTagConflicts: category limits', () => {
+  it('keeps the first persona and suggests dropping the rest', () => {
+    const found = byRule([
+      { text: 'Friendly Teacher', category: 'Persona Style' },
+      { text: 'Strict Examiner', category: 'Persona Style' },
+      { text: 'Use Analogies', category: 'Teaching Approach' }
+    ], 'one-persona');
+    assert.equal(found?.severity, 'warning');
+    assert.deepEqual(found?.tags, ['Friendly Teacher', 'Strict Examiner']);
+    assert.deepEqual(found?.suggestedRemoval, ['Strict Examiner']);
+  });
+
+  it('allows up to two output formats', () => {
+    const formats = ['Table', 'Flashcards', 'Mind Map'].map(text => ({ text, category: OUTPUT_FORMAT_CATEGORY }));
+    assert.equal(byRule(formats.slice(0, 2), 'output-formats'), undefined);
+    assert.deepEqual(byRule(formats, 'output-formats')?.suggestedRemoval, ['Mind Map']);
+  });
+
+  it('ignores tags without the category', () => {
+    assert.equal(byRule(tags('Friendly Teacher', 'Strict Examiner'), 'one-persona'), undefined);
+  });
+});
+
+describe('detectTagConflicts: output formats with smart tags', () => {
+  it('checks output formats against smart tags', () => {
+    const found = byRule([
+      { text: 'Tell It As A Story', category: 'Teaching Approach' },
+      { text: 'Table', category: OUTPUT_FORMAT_CATEGORY }
+    ], 'layout');
+    assert.deepEqual(found?.tags, ['Tell It As A Story', 'Table']);
+    assert.deepEqual(found?.suggestedRemoval, ['Table']);
+  });
+
+  it('lists conflicts most severe first', () => {
+    const found = detectTagConflicts([
+      { text: 'Formal Tone', category: 'Tone' },
+      { text: 'Fun And Casual', category: 'Tone' },
+      { text: 'Keep It Brief', category: 'Length' },
+      { text: 'Detailed Answer', category: 'Length' },
+      { text: 'Give Examples', category: 'Teaching Approach' },
+      { text: 'No Examples', category: 'Teaching Approach' }
+    ]);
+    assert.deepEqual(found.map(conflict => conflict.severity), ['error', 'warning', 'info']);
+  });
+
+  it('finds nothing in a compatible selection', () => {
+    assert.deepEqual(detectTagConflicts([
+      { text: 'Step By Step', category: 'Teaching Approach' },
+      { text: 'Use Examples', category: 'Teaching Approach' },
+      { text: 'Numbered List', category: OUTPUT_FORMAT_CATEGORY }
+    ]), []);
+  });
+});
+
+describe('contradictsSelection', () => {
+  it('catches a candidate that contradicts a pick', () => {
+    assert.equal(contradictsSelection({ text: 'Skip Examples' }, tags('Give Examples')), true);
+    assert.equal(contradictsSelection({ text: 'Deep Dive' }, tags('Quick Summary')), true);
+  });
+
+  it('ignores conflicts below the severity given', () => {
+    assert.equal(contradictsSelection({ text: 'Casual Chat' }, tags('Formal Tone')), false);
+    assert.equal(contradictsSelection({ text: 'Casual Chat' }, tags('Formal Tone'), 'info'), true);
+  });
+
+  it('ignores conflicts among the picks themselves', () => {
+    assert.equal(contradictsSelection({ text: 'Use Analogies' }, tags('Give Examples', 'No Examples')), false);
+  });
+
+  it('leaves category limits out', () => {
+    const personas = [{ text: 'Friendly Teacher', category: 'Persona Style' }];
+    assert.equal(contradictsSelection({ text: 'Strict Examiner', category: 'Persona Style' }, personas), false);
+  });
+});
@@ -0,0 +1,243 @@
+// Rules for selected tags that work against each other, checked for smart tags
+// and output formats together. The builders show the conflicts; the tag routes
+// use them to keep new suggestions from contradicting what was picked.
+
+export type ConflictSeverity = 'error' | 'warning' | 'info';
+
+// Most severe first
+export const CONFLICT_SEVERITIES: readonly ConflictSeverity[] = ['error', 'warning', 'info'];
+
+// The category given to output formats, so category rules can cover them too
+export const OUTPUT_FORMAT_CATEGORY = 'Output Format';
+
+export interface ConflictTag {
+  text: string;
+  // A smart tag category, OUTPUT_FORMAT_CATEGORY, or undefined when not known
+  category?: string;
+}
+
+interface RuleBase {
+  id: string;
+  severity: ConflictSeverity;
+  // What goes wrong, shown with the tags involved
+  message: string;
+  // What the student can do about it
+  resolution: string;
+}
+
+// A tag on each side conflicts. Keyword terms match whole words as written;
+// semantic terms also match other forms of the words ("summary", "summarize").
+// A tag matching both sides counts for the side with the longer matching term,
+// so "Avoid Examples" is on the "no examples" side rather than the "examples" one.
+export interface PairRule extends RuleBase {
+  type: 'keyword' | 'semantic';
+  sides: [string[], string[]];
+}
+
+// More than `max` tags of one category conflict
+export interface CategoryRule extends RuleBase {
+  type: 'category';
+  category: string;
+  max: number;
+}
+
+export type ConflictRule = PairRule | CategoryRule;
+
+export interface TagConflict {
+  ruleId: string;
+  type: ConflictRule['type'];
+  severity: ConflictSeverity;
+  message: string;
+  resolution: string;
+  // Every tag involved, in the order given
+  tags: string[];
+  // Deselecting these resolves the conflict
+  suggestedRemoval: string[];
+}
+
+export const CONFLICT_RULES: ConflictRule[] = [
+  {
+    id: 'examples',
+    type: 'keyword',
+    severity: 'error',
+    sides: [
+      ['no example', 'no examples', 'without examples', 'avoid examples', 'skip examples'],
+      ['example', 'examples']
+    ],
+    message: 'One tag asks for examples and another rules them out.',
+    resolution: 'Remove one of them.'
+  },
+  {
+    id: 'jargon',
+    type: 'keyword',
+    severity: 'error',
+    sides: [
+      ['avoid technical', 'no technical', 'avoid jargon', 'no jargon', 'without jargon'],
+      ['technical terms', 'technical language', 'technical words', 'jargon', 'scientific terms']
+    ],
+    message: 'One tag asks for technical terms and another avoids them.',
+    resolution: 'Remove one of them.'
+  },
+  {
+    id: 'length',
+    type: 'semantic',
+    severity: 'warning',
+    sides: [
+      ['short', 'brief', 'briefly', 'concise', 'summary', 'quick', 'one line', 'few words', 'in a nutshell', 'tldr'],
+      ['detailed', 'in depth', 'deep dive', 'comprehensive', 'thorough', 'elaborate', 'long answer', 'extensive']
+    ],
+    message: 'These ask for a short answer and a detailed one.',
+    resolution: 'Keep either the short tags or the detailed ones.'
+  },
+  {
+    id: 'level',
+    type: 'semantic',
+    severity: 'warning',
+    sides: [
+      ['simple', 'simply', 'basic', 'easy', 'beginner', 'like i m 5', 'plain language', 'everyday words', 'avoid technical', 'avoid jargon', 'no jargon'],
+      ['advanced', 'complex', 'technical', 'expert level', 'jargon', 'rigorous', 'university level']
+    ],
+    message: 'These ask for a simple answer and an advanced one.',
+    resolution: 'Keep either the simple tags or the advanced ones.'
+  },
+  {
+    id: 'layout',
+    type: 'keyword',
+    severity: 'warning',
+    sides: [
+      ['table', 'bullet', 'bullets', 'bullet points', 'numbered list', 'bullet list', 'flashcards', 'mind map'],
+      ['story', 'essay', 'paragraph', 'paragraphs', 'poem', 'letter', 'narrative']
+    ],
+    message: 'A list or table layout and a story or essay layout cannot both shape the answer.',
+    resolution: 'Pick one layout.'
+  },
+  {
+    id: 'tone',
+    type: 'semantic',
+    severity: 'info',
+    sides: [
+      ['formal', 'professional', 'academic', 'strict'],
+      ['casual', 'friendly', 'conversational', 'fun', 'playful', 'funny']
+    ],
+    message: 'These set a formal tone and a casual one.',
+    resolution: 'Keep the tone that suits you; the answer will sound more consistent.'
+  },
+  {
+    id: 'pace',
+    type: 'semantic',
+    severity: 'info',
+    sides: [
+      ['step by step', 'walk through', 'worked example', 'show working', 'show steps'],
+      ['brief', 'one line', 'direct answer', 'just the answer', 'only the answer', 'quick answer', 'no explanation']
+    ],
+    message: 'Step-by-step working and a brief answer pull in different directions.',
+    resolution: 'Keep the steps if you want to learn the method, or the brief answer if you only need the result.'
+  },
+  {
+    id: 'one-persona',
+    type: 'category',
+    severity: 'warning',
+    category: 'Persona Style',
+    max: 1,
+    message: 'More than one persona gives the answer mixed voices.',
+    resolution: 'Keep one Persona Style tag.'
+  },
+  {
+    id: 'output-formats',
+    type: 'category',
+    severity: 'info',
+    category: OUTPUT_FORMAT_CATEGORY,
+    max: 2,
+    message: 'Several output formats at once can crowd the answer.',
+    resolution: 'Keep the one or two formats that matter most.'
+  }
+];
+
+// "Don't use jargon!" -> ["don", "t", "use", "jargon"]
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+const SUFFIXES = ['ations', 'ation', 'ising', 'izing', 'ised', 'ized', 'ise', 'ize', 'ness', 'ies', 'ing', 'ed', 'ly', 'es', 's', 'y', 'e'];
+
+// A rough stem, so that "summary", "summaries" and "summarize" compare equal
+function stem(word: string): string {
+  const suffix = SUFFIXES.find(s => word.endsWith(s) && word.length - s.length >= 3);
+  return suffix ? word.slice(0, -suffix.length) : word;
+}
+
+function containsRun(haystack: string[], needle: string[]): boolean {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) return true;
+  }
+  return false;
+}
+
+// Word count of the longest term on a side that the tag contains, or 0
+function sideMatch(rule: PairRule, side: string[], text: string): number {
+  const normalize = rule.type === 'semantic' ? (list: string[]) => list.map(stem) : (list: string[]) => list;
+  const tagWords = normalize(words(text));
+  return side.reduce((longest, term) => {
+    const termWords = normalize(words(term));
+    return containsRun(tagWords, termWords) ? Math.max(longest, termWords.length) : longest;
+  }, 0);
+}
+
+function checkPair(rule: PairRule, tags: ConflictTag[]): TagConflict | null {
+  const onSide: [ConflictTag[], ConflictTag[]] = [[], []];
+  for (const tag of tags) {
+    const [first, second] = rule.sides.map(side => sideMatch(rule, side, tag.text));
+    if (first > second) onSide[0].push(tag);
+    else if (second > first) onSide[1].push(tag);
+  }
+  if (onSide[0].length === 0 || onSide[1].length === 0) return null;
+
+  // Suggest dropping the smaller side; on a tie, the side holding the latest tag
+  const lastIndex = (side: ConflictTag[]) => Math.max(...side.map(tag => tags.indexOf(tag)));
+  const drop = onSide[0].length !== onSide[1].length
+    ? (onSide[0].length < onSide[1].length ? 0 : 1)
+    : (lastIndex(onSide[0]) > lastIndex(onSide[1]) ? 0 : 1);
+
+  return conflict(rule, tags.filter(tag => onSide[0].includes(tag) || onSide[1].includes(tag)), onSide[drop]);
+}
+
+function checkCategory(rule: CategoryRule, tags: ConflictTag[]): TagConflict | null {
+  const inCategory = tags.filter(tag => tag.category === rule.category);
+  if (inCategory.length <= rule.max) return null;
+  // Keep the first ones picked
+  return conflict(rule, inCategory, inCategory.slice(rule.max));
+}
+
+function conflict(rule: ConflictRule, involved: ConflictTag[], removal: ConflictTag[]): TagConflict {
+  return {
+    ruleId: rule.id,
+    type: rule.type,
+    severity: rule.severity,
+    message: rule.message,
+    resolution: rule.resolution,
+    tags: involved.map(tag => tag.text),
+    suggestedRemoval: removal.map(tag => tag.text)
+  };
+}
+
+/**
+ * Conflicts among selected tags (smart tags and output formats together, in
+ * the order they were picked), most severe first.
+ */
+export function detectTagConflicts(tags: ConflictTag[], rules: ConflictRule[] = CONFLICT_RULES): TagConflict[] {
+  return rules
+    .map(rule => rule.type === 'category' ? checkCategory(rule, tags) : checkPair(rule, tags))
+    .filter((found): found is TagConflict => found !== null)
+    .sort((a, b) => CONFLICT_SEVERITIES.indexOf(a.severity) - CONFLICT_SEVERITIES.indexOf(b.severity));
+}
+
+/**
+ * Whether adding a candidate tag to a selection would contradict one of the
+ * selected tags at `minSeverity` or worse. Category limits are left out: more
+ * tags of a category is the student's choice, not something a suggestion causes.
+ */
+export function contradictsSelection(candidate: ConflictTag, selected: ConflictTag[], minSeverity: ConflictSeverity = 'warning', rules: ConflictRule[] = CONFLICT_RULES): boolean {
+  const limit = CONFLICT_SEVERITIES.indexOf(minSeverity);
+  const pairRules = rules.filter(rule => rule.type !== 'category' && CONFLICT_SEVERITIES.indexOf(rule.severity) <= limit);
+  return detectTagConflicts([...selected, candidate], pairRules).some(found => found.tags.includes(candidate.text));
+}
@@ -0,0 +1,12 @@
+// Measurements of a model answer, shown next to it in the "try it" comparison.
+
+export interface TextMetrics {
+  words: number;
+  sentences: number;
+  // Flesch-Kincaid grade: roughly the school grade needed to read the text easily
+  readingGrade: number;
+  paragraphs: number;
+  headings: number;
+  // Bullet points and numbered items
+  listItems: number;
+}
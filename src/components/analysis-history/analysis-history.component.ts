@@ -0,0 +1,82 @@
+import { ChangeDetectionStrategy, Component, computed, inject, output, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { AnalysisHistoryService } from '../../services/analysis-history.service';
+import { AnalysisHistoryEntry } from '../../models/analysis-history.model';
+
+// Chart area in SVG units; the chart scales to the panel width
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 80;
+const CHART_POINTS = 30;
+// Analyses averaged at each end of the history for the "progress" summary
+const TREND_WINDOW = 5;
+
+@Component({
+  selector: 'app-analysis-history',
+  imports: [DatePipe],
+  templateUrl: './analysis-history.component.html',
+  styleUrls: ['./analysis-history.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AnalysisHistoryComponent {
+  private readonly history = inject(AnalysisHistoryService);
+
+  // Re-opens a past analysis in the analyzer
+  readonly open = output<AnalysisHistoryEntry>();
+
+  readonly entries = this.history.entries;
+  searchQuery = signal<string>('');
+  isExpanded = signal<boolean>(false);
+
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+
+  readonly filteredEntries = computed(() => {
+    const query = this.searchQuery().trim().toLowerCase();
+    if (!query) return this.entries();
+    return this.entries().filter(entry =>
+      entry.prompt.toLowerCase().includes(query) || entry.analysis.feedback.toLowerCase().includes(query)
+    );
+  });
+
+  // The latest scores, oldest first, as SVG points
+  readonly chartPoints = computed(() => {
+    const scores = this.entries().slice(0, CHART_POINTS).map(entry => entry.score).reverse();
+    if (scores.length < 2) return [];
+    const step = CHART_WIDTH / (scores.length - 1);
+    return scores.map((score, i) => ({ x: i * step, y: CHART_HEIGHT - (score / 100) * CHART_HEIGHT, score }));
+  });
+
+  readonly chartPath = computed(() => this.chartPoints().map(point => `${point.x},${point.y}`).join(' '));
+
+  // Average of the latest analyses minus the average of the earliest ones
+  readonly progress = computed(() => {
+    const scores = this.entries().map(entry => entry.score);
+    if (scores.length < 2) return null;
+    const window = Math.min(TREND_WINDOW, Math.floor(scores.length / 2));
+    const average = (list: number[]) => list.reduce((sum, score) => sum + score, 0) / list.length;
+    return {
+      recent: Math.round(average(scores.slice(0, window))),
+      change: Math.round(average(scores.slice(0, window)) - average(scores.slice(-window)))
+    };
+  });
+
+  remove(entry: AnalysisHistoryEntry): void {
+    this.history.remove(entry.id);
+  }
+
+  clearAll(): void {
+    if (confirm('Delete all saved analyses from this browser?')) {
+      this.history.clear();
+    }
+  }
+
+  exportHistory(format: 'json' | 'csv'): void {
+    this.history.export(format);
+  }
+
+  getScoreBadgeClass(score: number): string {
+    if (score < 40) return 'bg-red-100 text-red-700';
+    if (score < 75) return 'bg-amber-100 text-amber-700';
+    return 'bg-green-100 text-green-700';
+  }
+}
@@ -1,24 +1,159 @@
 
-import { ChangeDetectionStrategy, Component, inject, signal, computed } from '@angular/core';
+import { ChangeDetectionStrategy, Component, DestroyRef, inject, signal, computed } from '@angular/core';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime, distinctUntilChanged, map } from 'rxjs/operators';
 import { GeminiService } from '../../services/gemini.service';
-import { PromptAnalysis } from '../../models/prompt-analysis.model';
+import { AnalysisHistoryService } from '../../services/analysis-history.service';
+import { AnalysisHistoryComponent } from '../analysis-history/analysis-history.component';
+import { AnalysisHistoryEntry } from '../../models/analysis-history.model';
+import { ApiError, ErrorUiState, toErrorUiState } from '../../services/api-error';
+import { AnalysisStreamEvent, ImprovedPrompt, PromptAnalysis } from '../../models/prompt-analysis.model';
+import { TryItAnswer, TryItResult } from '../../models/try-it.model';
+import type { AnnotationType, PromptAnnotation } from '../../../shared/annotations';
+import type { PiiKind } from '../../../shared/pii';
+import { scorePrompt } from '../../../shared/prompt-scorer';
+import { RUBRIC_DIMENSIONS, RUBRIC_MAX_SCORE, RubricDimension } from '../../../shared/rubric';
 
 @Component({
   selector: 'app-prompt-analyzer',
+  imports: [AnalysisHistoryComponent],
   templateUrl: './prompt-analyzer.component.html',
   styleUrls: ['./prompt-analyzer.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class PromptAnalyzerComponent {
   private readonly geminiService = inject(GeminiService);
+  private readonly historyService = inject(AnalysisHistoryService);
+  private analysisSubscription: Subscription | null = null;
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Assembled workbench text waiting to be re-scored. Edits are scored in the
+  // browser by the offline checklist, so they never spend an analysis; the first
+  // version is compared with the checklist score of the analyzed prompt.
+  private readonly rescoreRequests = new Subject<string>();
+  private originalChecklistScore = 0;
+  private lastRescoredScore: number | null = null;
+
+  constructor() {
+    const rescoreSubscription = this.rescoreRequests.pipe(
+      debounceTime(300),
+      distinctUntilChanged(),
+      map(text => scorePrompt(text).score)
+    ).subscribe(score => this.applyRescore(score));
+
+    inject(DestroyRef).onDestroy(() => {
+      this.analysisSubscription?.unsubscribe();
+      rescoreSubscription.unsubscribe();
+      this.stopCountdown();
+    });
+  }
   
   analysis = signal<PromptAnalysis | null>(null);
   isLoading = signal<boolean>(false);
-  error = signal<string | null>(null);
+  error = signal<ErrorUiState | null>(null);
+  // Seconds left before the server will accept another analysis (from Retry-After)
+  retryCountdown = signal<number>(0);
   promptInput = signal<string>('Explain photosynthesis.');
 
   openSuggestionCategory = signal<string | null>(null);
 
+  // The student's edits to the improved prompt (null until they change something)
+  improvedDraft = signal<ImprovedPrompt | null>(null);
+  rescore = signal<{ score: number; previousScore: number; comparedTo: 'original' | 'previous' } | null>(null);
+
+  readonly workbenchFields: { field: keyof ImprovedPrompt; label: string; placeholder: string }[] = [
+    { field: 'role', label: 'Role', placeholder: 'e.g. an experienced biology teacher' },
+    { field: 'context', label: 'Context', placeholder: 'e.g. I am a class 8 student preparing for a test' },
+    { field: 'task', label: 'Task', placeholder: 'What should the AI do?' },
+    { field: 'persona', label: 'Persona', placeholder: 'e.g. a patient coach' },
+    { field: 'tone', label: 'Tone', placeholder: 'e.g. simple and friendly' },
+    { field: 'format', label: 'Format', placeholder: 'e.g. five bullet points' },
+    { field: 'exemplars', label: 'Exemplars', placeholder: 'One example per line' }
+  ];
+
+  // Side-by-side answers for the prompts as they were when "Try both" was pressed
+  tryRun = signal<{ studentPrompt: string; improvedPrompt: string; result: TryItResult } | null>(null);
+  isTrying = signal<boolean>(false);
+  tryError = signal<ErrorUiState | null>(null);
+
+  readonly workbenchPrompt = computed<ImprovedPrompt | null>(() =>
+    this.improvedDraft() ?? this.analysis()?.improvedPrompt ?? null
+  );
+
+  readonly rescoreDelta = computed(() => {
+    const rescore = this.rescore();
+    return rescore ? rescore.score - rescore.previousScore : 0;
+  });
+
+  // The prompt the current annotations point into, and the annotations not applied yet
+  annotatedPrompt = signal<string>('');
+  annotations = signal<PromptAnnotation[]>([]);
+
+  readonly annotationLabels: Record<AnnotationType, string> = {
+    vague_verb: 'Vague verb',
+    missing_audience: 'Missing audience',
+    ambiguous_pronoun: 'Ambiguous pronoun',
+    unclear_scope: 'Unclear scope'
+  };
+
+  // The annotated prompt cut into plain and highlighted pieces; empty once the student edits it
+  readonly promptSegments = computed(() => {
+    const text = this.annotatedPrompt();
+    const annotations = this.annotations();
+    if (annotations.length === 0 || this.promptInput().trim() !== text) return [];
+
+    const segments: { text: string; annotation: PromptAnnotation | null }[] = [];
+    let position = 0;
+    for (const annotation of annotations) {
+      if (annotation.start > position) segments.push({ text: text.slice(position, annotation.start), annotation: null });
+      segments.push({ text: text.slice(annotation.start, annotation.end), annotation });
+      position = annotation.end;
+    }
+    if (position < text.length) segments.push({ text: text.slice(position), annotation: null });
+    return segments;
+  });
+
+  readonly piiKindLabels: Record<PiiKind, string> = {
+    name: 'Name',
+    school: 'School',
+    email: 'Email address',
+    phone: 'Phone number',
+    id: 'ID number'
+  };
+
+  readonly rubricMaxScore = RUBRIC_MAX_SCORE;
+  readonly rubricLabels: Record<RubricDimension, string> = {
+    clarity: 'Clarity',
+    context: 'Context',
+    specificity: 'Specificity',
+    role: 'Role',
+    format: 'Format',
+    tone: 'Tone',
+    examples: 'Examples'
+  };
+
+  // Sub-scores in a fixed order for the breakdown bars
+  readonly rubricRows = computed(() => {
+    const rubric = this.analysis()?.rubric;
+    if (!rubric) return [];
+    return RUBRIC_DIMENSIONS
+      .filter(dimension => rubric[dimension])
+      .map(dimension => ({ dimension, label: this.rubricLabels[dimension], ...rubric[dimension] }));
+  });
+
+  // Why the offline scorer answered instead of the AI coach (null for a normal analysis)
+  readonly fallbackNotice = computed<ErrorUiState | null>(() => {
+    const result = this.analysis();
+    return result?.fallback && result.code
+      ? toErrorUiState(new ApiError(result.code, { message: result.message }))
+      : null;
+  });
+
+  // Contact details and IDs stay hidden in the results, so students are told not to share them
+  readonly hasUnrestoredRedactions = computed(() =>
+    (this.analysis()?.redactions ?? []).some(redaction => !redaction.restored)
+  );
+
   suggestionCategories = [
     {
       category: 'Add Role',
@@ -83,25 +218,186 @@ export class PromptAnalyzerComponent {
     this.openSuggestionCategory.set(null); // Close dropdown after selection
   }
 
-  async analyzePrompt(): Promise<void> {
+  /** Replaces an annotated span with its fix and moves the remaining highlights to match. */
+  applyAnnotationFix(annotation: PromptAnnotation): void {
+    const text = this.annotatedPrompt();
+    const updated = text.slice(0, annotation.start) + annotation.fix + text.slice(annotation.end);
+    const shift = annotation.fix.length - (annotation.end - annotation.start);
+
+    this.annotations.update(list => list
+      .filter(other => other !== annotation && (other.end <= annotation.start || other.start >= annotation.end))
+      .map(other => other.start >= annotation.end ? { ...other, start: other.start + shift, end: other.end + shift } : other));
+    this.annotatedPrompt.set(updated);
+    this.promptInput.set(updated);
+  }
+
+  getAnnotationClass(type: AnnotationType): string {
+    switch (type) {
+      case 'vague_verb': return 'bg-amber-100 border-amber-400 hover:bg-amber-200';
+      case 'missing_audience': return 'bg-blue-100 border-blue-400 hover:bg-blue-200';
+      case 'ambiguous_pronoun': return 'bg-purple-100 border-purple-400 hover:bg-purple-200';
+      case 'unclear_scope': return 'bg-red-100 border-red-400 hover:bg-red-200';
+    }
+  }
+
+  getWorkbenchValue(prompt: ImprovedPrompt, field: keyof ImprovedPrompt): string {
+    const value = prompt[field];
+    return Array.isArray(value) ? value.join('\n') : value ?? '';
+  }
+
+  /** Applies an edit to one improved-prompt field and queues a re-score of the assembled text. */
+  updateImprovedField(field: keyof ImprovedPrompt, value: string): void {
+    const current = this.workbenchPrompt();
+    if (!current) return;
+    // Kept as typed; empty fields are skipped when the text is assembled
+    const next: ImprovedPrompt = field === 'exemplars'
+      ? { ...current, exemplars: value.split('\n') }
+      : { ...current, [field]: value };
+    this.improvedDraft.set(next);
+
+    const text = this.fullImprovedPromptText();
+    if (text) this.rescoreRequests.next(text);
+  }
+
+  private applyRescore(score: number): void {
+    this.rescore.set({
+      score,
+      previousScore: this.lastRescoredScore ?? this.originalChecklistScore,
+      comparedTo: this.lastRescoredScore === null ? 'original' : 'previous'
+    });
+    this.lastRescoredScore = score;
+  }
+
+  async runTryIt(): Promise<void> {
+    const studentPrompt = this.promptInput().trim();
+    const improvedPrompt = this.fullImprovedPromptText();
+    if (!studentPrompt || !improvedPrompt || this.isTrying()) return;
+
+    this.isTrying.set(true);
+    this.tryError.set(null);
+    try {
+      const result = await this.geminiService.tryPrompts(studentPrompt, improvedPrompt);
+      this.tryRun.set({ studentPrompt, improvedPrompt, result });
+    } catch (e) {
+      this.tryError.set(toErrorUiState(e));
+    } finally {
+      this.isTrying.set(false);
+    }
+  }
+
+  // Plain-language labels for the metrics under each answer
+  describeMetrics(answer: TryItAnswer): string[] {
+    const m = answer.metrics;
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    return [
+      plural(m.words, 'word'),
+      plural(m.sentences, 'sentence'),
+      `Reading level: grade ${m.readingGrade}`,
+      plural(m.paragraphs, 'paragraph'),
+      plural(m.headings, 'heading'),
+      plural(m.listItems, 'list item')
+    ];
+  }
+
+  private resetWorkbench(prompt: string): void {
+    this.improvedDraft.set(null);
+    this.rescore.set(null);
+    this.originalChecklistScore = scorePrompt(prompt).score;
+    this.lastRescoredScore = null;
+    this.tryRun.set(null);
+    this.tryError.set(null);
+  }
+
+  analyzePrompt(): void {
     const prompt = this.promptInput().trim();
-    if (!prompt || this.isLoading()) {
+    if (!prompt || this.isLoading() || this.retryCountdown() > 0) {
       return;
     }
 
     this.isLoading.set(true);
     this.error.set(null);
     this.analysis.set(null);
+    this.annotations.set([]);
+    this.annotatedPrompt.set(prompt);
+    this.resetWorkbench(prompt);
 
-    try {
-      const result = await this.geminiService.analyzeStudentPrompt(prompt);
-      this.analysis.set(result);
-    } catch (e: unknown) {
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
-      this.error.set(errorMessage);
-    } finally {
-      this.isLoading.set(false);
+    // Results are rendered progressively as the stream delivers them
+    this.analysisSubscription?.unsubscribe();
+    this.analysisSubscription = this.geminiService.analyzeStudentPromptStream(prompt).subscribe({
+      next: event => {
+        this.applyStreamEvent(event);
+        if (event.type === 'done') this.historyService.add(prompt, event.analysis);
+      },
+      error: (e: unknown) => {
+        const state = toErrorUiState(e);
+        this.error.set(state);
+        this.isLoading.set(false);
+        if (state.retryAfterSeconds) {
+          this.startCountdown(state.retryAfterSeconds);
+        }
+      },
+      complete: () => this.isLoading.set(false)
+    });
+  }
+
+  /** Shows a saved analysis again, with its prompt back in the input. */
+  openHistoryEntry(entry: AnalysisHistoryEntry): void {
+    this.analysisSubscription?.unsubscribe();
+    this.isLoading.set(false);
+    this.error.set(null);
+    this.promptInput.set(entry.prompt);
+    this.analysis.set(entry.analysis);
+    this.annotatedPrompt.set(entry.prompt);
+    this.annotations.set(entry.analysis.annotations ?? []);
+    this.resetWorkbench(entry.prompt);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  private startCountdown(seconds: number): void {
+    this.stopCountdown();
+    this.retryCountdown.set(seconds);
+    this.countdownTimer = setInterval(() => {
+      const remaining = this.retryCountdown() - 1;
+      this.retryCountdown.set(Math.max(0, remaining));
+      if (remaining <= 0) {
+        this.stopCountdown();
+        this.error.set(null);
+      }
+    }, 1000);
+  }
+
+  private stopCountdown(): void {
+    if (this.countdownTimer) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+  }
+
+  private applyStreamEvent(event: AnalysisStreamEvent): void {
+    if (event.type === 'done') {
+      this.analysis.set(event.analysis);
+      this.annotations.set(event.analysis.annotations ?? []);
+      return;
     }
+
+    this.analysis.update(current => {
+      const partial: PromptAnalysis = current ?? {
+        score: 0,
+        feedback: '',
+        improvedPrompt: { role: null, context: null, task: '', exemplars: null, persona: null, format: null, tone: null }
+      };
+
+      switch (event.type) {
+        case 'score':
+          return { ...partial, score: event.score };
+        case 'rubric':
+          return { ...partial, rubric: event.rubric };
+        case 'feedback':
+          return { ...partial, feedback: partial.feedback + event.delta };
+        case 'improved':
+          return { ...partial, improvedPrompt: { ...partial.improvedPrompt, [event.field]: event.value } };
+      }
+    });
   }
   
   getScoreColor(score: number): string {
@@ -116,6 +412,18 @@ export class PromptAnalyzerComponent {
     return 'stroke-green-500';
   }
 
+  // Sub-scores use the same colour bands as the overall score
+  getRubricBarColor(score: number): string {
+    const percent = score / RUBRIC_MAX_SCORE * 100;
+    if (percent < 40) return 'bg-red-500';
+    if (percent < 75) return 'bg-amber-500';
+    return 'bg-green-500';
+  }
+
+  getRubricBarWidth(score: number): string {
+    return `${Math.max(0, Math.min(100, score / RUBRIC_MAX_SCORE * 100))}%`;
+  }
+
   getScoreTrackColor(score: number): string {
     if (score < 40) return 'stroke-red-500/20';
     if (score < 75) return 'stroke-amber-500/20';
@@ -135,18 +443,26 @@ export class PromptAnalyzerComponent {
   }
 
   readonly fullImprovedPromptText = computed(() => {
-    const p = this.analysis()?.improvedPrompt;
+    const p = this.workbenchPrompt();
     if (!p) return '';
     
+    const role = p.role?.trim();
+    const persona = p.persona?.trim();
+    const context = p.context?.trim();
+    const task = p.task.trim().replace(/\.+$/, '');
+    const tone = p.tone?.trim();
+    const format = p.format?.trim();
+    const exemplars = (p.exemplars ?? []).map(item => item.trim()).filter(Boolean);
+
     let fullText = '';
-    if (p.role) fullText += `As ${p.role}, `;
-    if (p.persona) fullText += `adopting a ${p.persona} persona, `;
-    if (p.context) fullText += `given the context that ${p.context}, `;
-    fullText += `${p.task}. `;
-    if (p.tone) fullText += `The tone should be ${p.tone}. `;
-    if (p.format) fullText += `Please provide the output in the format of ${p.format}.`;
-    if (p.exemplars && p.exemplars.length > 0) {
-        fullText += ` For example: ${p.exemplars.join(', ')}.`;
+    if (role) fullText += `As ${role}, `;
+    if (persona) fullText += `adopting a ${persona} persona, `;
+    if (context) fullText += `given the context that ${context}, `;
+    if (task) fullText += `${task}. `;
+    if (tone) fullText += `The tone should be ${tone}. `;
+    if (format) fullText += `Please provide the output in the format of ${format}.`;
+    if (exemplars.length > 0) {
+        fullText += ` For example: ${exemplars.join(', ')}.`;
     }
     return fullText.trim();
   });
@@ -4,7 +4,15 @@ import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
 import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
 import { GeminiService } from '../../services/gemini.service';
+import { ApiError, ErrorUiState, errorUiState, toErrorUiState } from '../../services/api-error';
+import { TagPresetService, pinPresetTags } from '../../services/tag-preset.service';
 import { SmartTag } from '../../models/smart-tag.model';
+import { detectCurriculum, suggestTopics } from '../../../shared/curriculum';
+import { ConflictSeverity, OUTPUT_FORMAT_CATEGORY, TagConflict, detectTagConflicts } from '../../../shared/tag-conflicts';
+import { TagPreset } from '../../models/tag-preset.model';
+import { RecentPrompt } from '../../models/recent-prompt.model';
+import { RECENT_PROMPTS_RETENTION_DAYS, RecentPromptsService } from '../../services/recent-prompts.service';
+import { COMPLEMENTARY_TAGS_DELAY_MS, mergeComplementaryTags } from '../../services/complementary-tags';
 
 type Persona = 'Teacher' | 'Parents' | 'Students';
 
@@ -40,11 +48,6 @@ const INTENT_OUTPUT_DEFAULTS: Record<string, string[]> = {
   'default': ['Bullet points', 'Short summary']
 };
 
-const CONFLICT_PAIRS = [
-  ['Brief Topic Summary', 'Deep Dive Explanation'],
-  ['Step By Step Guide', 'Brief Topic Summary']
-];
-
 const FALLBACK_TAGS: Record<Persona, SmartTag[]> = {
   'Teacher': [
     { text: 'Include Real Life Example', category: 'Add Context' },
@@ -92,6 +95,7 @@ export class PromptBuilderComponent {
   availableSmartTags = signal<SmartTag[]>([]);
   selectedSmartTags = signal<string[]>([]);
   isLoadingTags = signal(false);
+  isLoadingComplementary = signal(false);
 
   // Output Tags State
   availableOutputTags = signal<{id: string, text: string, isDefault: boolean}[]>([]);
@@ -104,12 +108,25 @@ export class PromptBuilderComponent {
   
   // Debounce subjects
   topicSubject = new Subject<string>();
+  selectionSubject = new Subject<void>();
+
+  // Bumped on every new set of suggestions, so late complementary tags for old ones are dropped
+  private suggestionRound = 0;
 
   // Recent Prompts
-  recentPrompts = signal<any[]>([]);
+  recentPrompts = computed(() => this.recentPromptsService.forBuilder('prompt-builder'));
+  rememberRecent = computed(() => this.recentPromptsService.persist());
+  readonly retentionDays = RECENT_PROMPTS_RETENTION_DAYS;
+
+  // Presets
+  presetName = signal('');
+  presets = computed(() => this.presetService.forBuilder('prompt-builder'));
 
   currentIntents = computed(() => PERSONA_INTENTS[this.activePersona()]);
 
+  // Syllabus topics for the topic box autocomplete, for the selected class
+  topicSuggestions = computed(() => suggestTopics(this.topic(), { classLevel: this.classLevel() }));
+
   promptStrength = computed(() => {
     const count = this.selectedSmartTags().length;
     if (count >= 6) return { label: 'Expert', color: 'text-green-400', barColor: 'bg-green-500', icon: '🟢', width: '100%' };
@@ -117,15 +134,19 @@ export class PromptBuilderComponent {
     return { label: 'Basic', color: 'text-red-400', barColor: 'bg-red-500', icon: '🔴', width: '33%' };
   });
 
-  conflictWarning = computed(() => {
-    const selected = this.selectedSmartTags();
-    for (const pair of CONFLICT_PAIRS) {
-      const [tag1, tag2] = pair;
-      if (selected.includes(tag1) && selected.includes(tag2)) {
-        return `⚠️ These suggestions may conflict. You might want to choose either "${tag1}" OR "${tag2}".`;
-      }
-    }
-    return null;
+  readonly conflictStyles: Record<ConflictSeverity, { box: string; icon: string }> = {
+    'error': { box: 'bg-red-50 border-red-200 text-red-800', icon: '⛔' },
+    'warning': { box: 'bg-yellow-50 border-yellow-200 text-yellow-800', icon: '⚠️' },
+    'info': { box: 'bg-blue-50 border-blue-200 text-blue-800', icon: 'ℹ️' }
+  };
+
+  // Selected smart tags and output formats that work against each other, most severe first
+  conflicts = computed(() => {
+    const available = this.availableSmartTags();
+    return detectTagConflicts([
+      ...this.selectedSmartTags().map(text => ({ text, category: available.find(t => t.text === text)?.category })),
+      ...this.selectedOutputTags().map(text => ({ text, category: OUTPUT_FORMAT_CATEGORY }))
+    ]);
   });
 
   assembledPrompt = computed(() => {
@@ -163,7 +184,11 @@ export class PromptBuilderComponent {
     return parts.join('\n\n');
   });
 
-  constructor(private geminiService: GeminiService) {
+  constructor(
+    private geminiService: GeminiService,
+    private presetService: TagPresetService,
+    private recentPromptsService: RecentPromptsService
+  ) {
     // Initialize default intent
     this.activeIntent.set(PERSONA_INTENTS['Teacher'][0]);
 
@@ -176,13 +201,16 @@ export class PromptBuilderComponent {
       if (value.length >= 4) {
         this.loadSmartTags();
       } else {
+        this.cancelComplementaryTags();
         this.availableSmartTags.set([]);
         this.availableOutputTags.set([]);
       }
     });
 
-    // Load recent prompts
-    this.loadRecentPrompts();
+    // Ask for tags that go with the picks once the user pauses
+    this.selectionSubject.pipe(
+      debounceTime(COMPLEMENTARY_TAGS_DELAY_MS)
+    ).subscribe(() => this.loadComplementaryTags());
   }
 
   onClassLevelChange(event: Event) {
@@ -216,39 +244,44 @@ export class PromptBuilderComponent {
     
     if (topic.length < 4) return;
 
+    const detected = detectCurriculum(topic, { classLevel: this.classLevel() });
     this.isLoadingTags.set(true);
+    this.cancelComplementaryTags();
     
     // Clear existing to prevent flash
     this.availableSmartTags.set([]);
     this.availableOutputTags.set([]);
     
     try {
-      const [aiResponse, outputResponse] = await Promise.all([
+      // Output suggestions are optional extras, so one request failing must not discard the other
+      const [tagsResult, outputResult] = await Promise.allSettled([
         this.geminiService.generateSmartTags({
           topic,
           intent,
           persona,
           stage: 1,
           selectedTags: [],
-          avoidDuplicates: true
+          avoidDuplicates: true,
+          detected
         }),
         this.geminiService.generateOutputSuggestions({
           topic,
           intent,
           persona,
           selectedSmartTags: [],
-          selectedOutputTags: []
+          selectedOutputTags: [],
+          detected
         })
       ]);
 
-      if (aiResponse.success && aiResponse.tags.length > 0) {
+      const aiResponse = tagsResult.status === 'fulfilled' ? tagsResult.value : null;
+      if (aiResponse && aiResponse.success && aiResponse.tags.length > 0) {
         const normalizedTags = this.normalizeTags(aiResponse.tags);
         this.availableSmartTags.set(normalizedTags);
         
-        if (aiResponse.fallback) {
-          const msg = aiResponse.message || 'Using fallback suggestions.';
-          this.bannerMessage.set(`⚠️ ${msg}`);
-          setTimeout(() => this.bannerMessage.set(null), 5000);
+        // The server answered with its own fallback list; explain why
+        if (aiResponse.fallback && aiResponse.code) {
+          this.showErrorBanner(toErrorUiState(new ApiError(aiResponse.code, { message: aiResponse.message })));
         }
 
         if (resetSelection) {
@@ -257,12 +290,13 @@ export class PromptBuilderComponent {
       } else {
         // Fallback: Use fixed list
         this.availableSmartTags.set(FALLBACK_TAGS[persona]);
-        
-        const msg = aiResponse.message || 'Using offline suggestions.';
-        this.bannerMessage.set(`⚠️ ${msg}`);
-        setTimeout(() => this.bannerMessage.set(null), 5000);
+        this.showErrorBanner(tagsResult.status === 'rejected'
+          ? toErrorUiState(tagsResult.reason)
+          : errorUiState('retry', 'Using offline suggestions.'));
       }
 
+      const outputResponse = outputResult.status === 'fulfilled' ? outputResult.value : null;
+
       // Handle Output Tags
       const defaultOutputs = INTENT_OUTPUT_DEFAULTS[intent] || INTENT_OUTPUT_DEFAULTS['default'];
       
@@ -272,7 +306,7 @@ export class PromptBuilderComponent {
         isDefault: true 
       }));
       
-      if (outputResponse.success && outputResponse.suggestions) {
+      if (outputResponse?.success && outputResponse.suggestions) {
         outputResponse.suggestions.slice(0, 3).forEach((text, idx) => {
           outputTags.push({ id: `ai-${idx}`, text, isDefault: false });
         });
@@ -288,6 +322,11 @@ export class PromptBuilderComponent {
     }
   }
 
+  private showErrorBanner(state: ErrorUiState) {
+    this.bannerMessage.set(`⚠️ ${state.title}: ${state.message}`);
+    setTimeout(() => this.bannerMessage.set(null), 5000);
+  }
+
   normalizeTags(tags: SmartTag[]): SmartTag[] {
     return tags.map(tag => ({
       ...tag,
@@ -314,6 +353,43 @@ export class PromptBuilderComponent {
       // Enforce max 8 tags
       if (current.length >= 8) return;
       this.selectedSmartTags.set([...current, tagText]);
+      this.selectionSubject.next();
+    }
+  }
+
+  private cancelComplementaryTags() {
+    this.suggestionRound++;
+    this.isLoadingComplementary.set(false);
+  }
+
+  // Stage 2: add tags that go with the picks to their categories, keeping every shown tag and pick
+  async loadComplementaryTags() {
+    const topic = this.topic();
+    const selectedTags = this.selectedSmartTags();
+    if (topic.length < 4 || selectedTags.length === 0) return;
+
+    const round = this.suggestionRound;
+    this.isLoadingComplementary.set(true);
+
+    try {
+      const response = await this.geminiService.generateSmartTags({
+        topic,
+        intent: this.activeIntent(),
+        persona: this.activePersona(),
+        stage: 2,
+        selectedTags,
+        visibleTags: this.availableSmartTags().map(t => t.text),
+        detected: detectCurriculum(topic, { classLevel: this.classLevel() })
+      });
+
+      // The server's generic fallback list adds nothing that goes with the picks
+      if (round !== this.suggestionRound || !response.success || response.fallback) return;
+
+      this.availableSmartTags.set(mergeComplementaryTags(this.availableSmartTags(), this.normalizeTags(response.tags)));
+    } catch {
+      // Already reported by the service; the first suggestions are still there
+    } finally {
+      if (round === this.suggestionRound) this.isLoadingComplementary.set(false);
     }
   }
   
@@ -328,65 +404,101 @@ export class PromptBuilderComponent {
     }
   }
 
-  loadRecentPrompts() {
-    // Disabled persistence
-    this.recentPrompts.set([]);
-    /*
-    try {
-      const recent = JSON.parse(sessionStorage.getItem('recent-prompts') || '[]');
-      this.recentPrompts.set(recent);
-    } catch (e) {
-      this.recentPrompts.set([]);
-    }
-    */
+  // Deselect the tags a conflict suggests dropping
+  resolveConflict(conflict: TagConflict) {
+    const remove = new Set(conflict.suggestedRemoval);
+    this.selectedSmartTags.set(this.selectedSmartTags().filter(t => !remove.has(t)));
+    this.selectedOutputTags.set(this.selectedOutputTags().filter(t => !remove.has(t)));
   }
 
-  useRecentPrompt(recent: any) {
-    this.topic.set(recent.topic);
-    this.debouncedTopic.set(recent.topic);
-    
-    if (recent.persona) {
-      this.setPersona(recent.persona);
+  savePreset() {
+    const name = this.presetName().trim();
+    const selected = this.selectedSmartTags();
+    if (!name || (selected.length === 0 && this.selectedOutputTags().length === 0)) return;
+
+    const preset = this.presetService.save({
+      name,
+      builder: 'prompt-builder',
+      intent: this.activeIntent(),
+      persona: this.activePersona(),
+      classLevel: this.classLevel(),
+      topicPattern: this.topic().trim(),
+      tags: this.availableSmartTags().filter(t => selected.includes(t.text)),
+      outputTags: this.selectedOutputTags()
+    });
+    this.presetName.set('');
+    this.bannerMessage.set(`ℹ️ Saved preset "${preset.name}".`);
+    setTimeout(() => this.bannerMessage.set(null), 3000);
+  }
+
+  // Restore a preset: load fresh suggestions, then pin the preset's tags into them
+  async applyPreset(preset: TagPreset) {
+    // Keep the user's own topic; the preset's topic only fills an empty box
+    const topic = this.topic().length < 4 && preset.topicPattern ? preset.topicPattern : this.topic();
+    await this.restoreSelection({ ...preset, topic });
+
+    this.bannerMessage.set(`ℹ️ Applied preset "${preset.name}".`);
+    setTimeout(() => this.bannerMessage.set(null), 3000);
+  }
+
+  // Put persona, intent, class level and topic back, then select the saved tags by text
+  private async restoreSelection(state: Pick<RecentPrompt, 'topic' | 'intent' | 'persona' | 'classLevel' | 'tags' | 'outputTags'>) {
+    if (state.persona && state.persona in PERSONA_INTENTS) {
+      this.activePersona.set(state.persona as Persona);
     }
-    
-    if (recent.intent) {
-      this.activeIntent.set(recent.intent);
+    this.activeIntent.set(state.intent);
+    if (state.classLevel) {
+      this.classLevel.set(state.classLevel);
+    }
+    this.topic.set(state.topic);
+    this.debouncedTopic.set(state.topic);
+
+    await this.loadSmartTags(true);
+
+    const smart = pinPresetTags(this.availableSmartTags(), state.tags, (a, b) => a.category === b.category);
+    this.availableSmartTags.set(smart.tags);
+    this.selectedSmartTags.set(smart.pinned.slice(0, 8).map(t => t.text));
+
+    if (state.outputTags.length > 0) {
+      const output = pinPresetTags(
+        this.availableOutputTags(),
+        state.outputTags.map((text, idx) => ({ id: `preset-${idx}`, text, isDefault: false }))
+      );
+      this.availableOutputTags.set(output.tags);
+      this.selectedOutputTags.set(output.pinned.slice(0, 3).map(t => t.text));
     }
-    
-    // We don't restore selected tags to keep it "fresh" but context aware, 
-    // or we could if we stored them. The current saveToHistory doesn't seem to store selectedTags explicitly
-    // but it stores the assembled prompt.
-    // Let's just restore topic/persona/intent which triggers tag loading.
+  }
+
+  deletePreset(preset: TagPreset) {
+    if (confirm(`Delete the preset "${preset.name}"?`)) {
+      this.presetService.remove(preset.id);
+    }
+  }
+
+  async useRecentPrompt(recent: RecentPrompt) {
+    await this.restoreSelection(recent);
+  }
+
+  onRememberChange(event: Event) {
+    this.recentPromptsService.setPersist((event.target as HTMLInputElement).checked);
   }
 
   clearSession() {
-    // sessionStorage.removeItem('recent-prompts');
-    this.recentPrompts.set([]);
+    this.recentPromptsService.clear();
   }
 
   private saveToHistory() {
-    const currentTopic = this.topic();
-    // Save to session storage (Recent Prompts)
-    // const recent = JSON.parse(sessionStorage.getItem('recent-prompts') || '[]');
-    const recent = this.recentPrompts();
-    
-    // Create new entry
-    const newEntry = {
-      topic: currentTopic || 'Untitled',
+    const selected = this.selectedSmartTags();
+    this.recentPromptsService.add({
+      builder: 'prompt-builder',
+      topic: this.topic() || 'Untitled',
+      prompt: this.assembledPrompt(),
       intent: this.activeIntent(),
       persona: this.activePersona(),
-      prompt: this.assembledPrompt(),
-      date: new Date().toISOString()
-    };
-    
-    // Add to front
-    const updated = [newEntry, ...recent];
-    
-    // Keep last 10
-    if (updated.length > 10) updated.pop();
-    
-    // sessionStorage.setItem('recent-prompts', JSON.stringify(recent));
-    this.recentPrompts.set(updated);
+      classLevel: this.classLevel(),
+      tags: this.availableSmartTags().filter(t => selected.includes(t.text)),
+      outputTags: this.selectedOutputTags()
+    });
   }
 
   setPersona(persona: Persona) {
@@ -449,14 +561,13 @@ Built with BetterAskPrompt: ${window.location.origin}`;
   hardReset() {
     if (confirm('This will reset all app data (except onboarding). Are you sure?')) {
       // localStorage.removeItem('prompt-builder-draft');
-      // sessionStorage.removeItem('recent-prompts');
-      // localStorage.removeItem('betterask_last_preset');
-      // localStorage.removeItem('betterask_prompt_count');
+      this.recentPromptsService.setPersist(false);
+      this.recentPromptsService.clear();
+      this.presetService.clear();
       
       // Reset local state
       this.topic.set('');
       this.selectedSmartTags.set([]);
-      this.recentPrompts.set([]);
       
       window.location.reload();
     }
@@ -1,7 +1,12 @@
-import { Component, signal } from '@angular/core';
+import { Component, computed, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { SmartTagService } from '../../services/smart-tag.service';
 import { Intent, TagCategory } from '../../models/smart-tag.model';
+import { TagPreset } from '../../models/tag-preset.model';
+import { RecentPrompt } from '../../models/recent-prompt.model';
+import { RECENT_PROMPTS_RETENTION_DAYS, RecentPromptsService } from '../../services/recent-prompts.service';
+import { TopicSuggestion, completeTopic, suggestTopics } from '../../../shared/curriculum';
+import { ConflictSeverity, TagConflict } from '../../../shared/tag-conflicts';
 import { OnboardingOverlayComponent } from '../onboarding-overlay/onboarding-overlay.component';
 
 @Component({
@@ -64,40 +69,62 @@ export class SmartTagBuilderComponent {
     }
   };
 
+  // Conflict notice colors by severity
+  conflictStyles: Record<ConflictSeverity, string> = {
+    'error': 'bg-red-50 border-red-500 text-red-800',
+    'warning': 'bg-orange-50 border-orange-500 text-orange-800',
+    'info': 'bg-blue-50 border-blue-400 text-blue-800'
+  };
+
   // Copy state management
   copySuccess = signal<boolean>(false);
-  // showPresetBanner = signal<boolean>(false); // Removed as per requirement
-
-  constructor(public tagService: SmartTagService) {
-    // Removed auto-preset banner logic
-    /*
-    if (tagService.hasPreset() && !tagService.isOnboardingComplete()) {
-      setTimeout(() => {
-        this.showPresetBanner.set(true);
-      }, 1000);
+  presetName = signal<string>('');
+  presetSaved = signal<string | null>(null);
+
+  readonly retentionDays = RECENT_PROMPTS_RETENTION_DAYS;
+
+  // Syllabus topics matching what is being typed
+  showTopicSuggestions = signal<boolean>(false);
+  topicSuggestions = computed(() => {
+    if (!this.showTopicSuggestions()) return [];
+    const meta = this.tagService.detectedMeta();
+    return suggestTopics(this.tagService.topic(), { board: meta?.board, classLevel: meta?.class });
+  });
+
+  constructor(public tagService: SmartTagService, public recentPrompts: RecentPromptsService) {}
+  
+  // Save the current selection under a name
+  savePreset() {
+    const preset = this.tagService.saveAsPreset(this.presetName());
+    if (preset) {
+      this.presetName.set('');
+      this.presetSaved.set(preset.name);
+      setTimeout(() => this.presetSaved.set(null), 3000);
     }
-    */
   }
   
-  // Load last preset
-  useLastSetup() {
-    this.tagService.loadLastPreset();
-    // this.showPresetBanner.set(false);
+  async applyPreset(preset: TagPreset) {
+    await this.tagService.applyPreset(preset);
   }
   
-  /*
-  dismissPresetBanner() {
-    this.showPresetBanner.set(false);
+  deletePreset(preset: TagPreset) {
+    if (confirm(`Delete the preset "${preset.name}"?`)) {
+      this.tagService.deletePreset(preset.id);
+    }
   }
-  */
 
   clearSession() {
     this.tagService.clearSession();
   }
   
   // Use recent prompt
-  useRecentPrompt(recent: { topic: string; prompt: string; timestamp: number }) {
-    this.tagService.useRecentPrompt(recent);
+  async useRecentPrompt(recent: RecentPrompt) {
+    await this.tagService.useRecentPrompt(recent);
+  }
+
+  // Opt in to keeping recent prompts on this device
+  onRememberChange(event: Event) {
+    this.recentPrompts.setPersist((event.target as HTMLInputElement).checked);
   }
   
   // Show onboarding tutorial
@@ -114,6 +141,13 @@ export class SmartTagBuilderComponent {
   onTopicInput(event: Event) {
     const target = event.target as HTMLTextAreaElement;
     this.tagService.setTopic(target.value);
+    this.showTopicSuggestions.set(true);
+  }
+
+  // Autocomplete pick
+  selectTopicSuggestion(suggestion: TopicSuggestion) {
+    this.tagService.setTopic(completeTopic(this.tagService.topic(), suggestion));
+    this.showTopicSuggestions.set(false);
   }
 
   // Tag selection toggle
@@ -136,11 +170,13 @@ export class SmartTagBuilderComponent {
     return this.categoryConfig[category];
   }
 
-  // Refresh tags for a specific category (optional feature)
+  // New suggestions for one category; selected tags stay
   async refreshCategory(category: TagCategory) {
-    // This would call the backend to regenerate just this category
-    // For now, it reloads all tags
-    await this.tagService.loadSmartTags();
+    await this.tagService.refreshCategory(category);
+  }
+  
+  resolveConflict(conflict: TagConflict) {
+    this.tagService.resolveConflict(conflict);
   }
   
   // Output tag methods
@@ -1,4 +1,6 @@
 export const environment = {
   production: false,
   apiBase: '/api',
+  schoolId: '', // set per school deployment; the backend applies that school's policy if its config lists it
+  historySync: false, // also keep analysis history on the backend (needs HISTORY_SYNC=true there)
 };
@@ -1,4 +1,6 @@
 export const environment = {
   production: true,
-  apiBase: 'https://betterprompt-backend-496602088350.asia-south2.run.app/api'
+  apiBase: 'https://betterprompt-backend-496602088350.asia-south2.run.app/api',
+  schoolId: '', // set per school deployment; the backend applies that school's policy if its config lists it
+  historySync: false // also keep analysis history on the backend (needs HISTORY_SYNC=true there)
 };
@@ -1,11 +1,12 @@
 import { bootstrapApplication } from '@angular/platform-browser';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideZonelessChangeDetection } from '@angular/core';
 import { AppComponent } from './app.component';
+import { sessionIdInterceptor } from './services/session-id.interceptor';
 
 bootstrapApplication(AppComponent, {
   providers: [
     provideZonelessChangeDetection(),
-    provideHttpClient()
+    provideHttpClient(withInterceptors([sessionIdInterceptor]))
   ]
 }).catch(err => console.error(err));
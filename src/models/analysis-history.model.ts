@@ -0,0 +1,14 @@
+import type { Rubric } from '../../shared/rubric';
+import type { PromptAnalysis } from './prompt-analysis.model';
+
+// One saved analysis. The headline fields are copied out of `analysis` so the
+// list, search and progress chart can use them directly.
+export interface AnalysisHistoryEntry {
+  id: string;
+  createdAt: string; // ISO timestamp
+  prompt: string;
+  score: number;
+  rubric?: Rubric;
+  // The full result, so a past analysis can be re-opened as it was
+  analysis: PromptAnalysis;
+}
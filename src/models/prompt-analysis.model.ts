@@ -1,3 +1,8 @@
+import type { PromptAnnotation } from '../../shared/annotations';
+import type { ApiErrorCode } from '../../shared/api-error';
+import type { PiiRedaction } from '../../shared/pii';
+import type { Rubric } from '../../shared/rubric';
+
 
 export interface ImprovedPrompt {
   role: string | null;
@@ -11,6 +16,25 @@ export interface ImprovedPrompt {
 
 export interface PromptAnalysis {
   score: number;
+  // Per-dimension sub-scores (absent until the stream has delivered them)
+  rubric?: Rubric;
   feedback: string;
+  // Weak spots in the analyzed prompt (only on the final result)
+  annotations?: PromptAnnotation[];
   improvedPrompt: ImprovedPrompt;
-}
\ No newline at end of file
+  // Personal details the server hid from the AI (absent when there were none)
+  redactions?: PiiRedaction[];
+  // Set when the offline scorer answered because the AI could not
+  fallback?: boolean;
+  code?: ApiErrorCode; // Why the fallback was used
+  message?: string;
+}
+
+// Events emitted by GeminiService.analyzeStudentPromptStream, mirroring the
+// Server-Sent Events sent by /api/gemini/analyze/stream.
+export type AnalysisStreamEvent =
+  | { type: 'score'; score: number }
+  | { type: 'rubric'; rubric: Rubric }
+  | { type: 'feedback'; delta: string }
+  | { type: 'improved'; field: keyof ImprovedPrompt; value: string | string[] | null }
+  | { type: 'done'; analysis: PromptAnalysis };
@@ -0,0 +1,16 @@
+import { SmartTag, TagBuilder } from './smart-tag.model';
+
+// Everything needed to put a builder back the way it was when the prompt was made
+export interface RecentPrompt {
+  id: string;
+  builder: TagBuilder;
+  timestamp: number;
+  topic: string;
+  prompt: string;
+  intent: string;
+  // Prompt builder only
+  persona?: string;
+  classLevel?: number;
+  tags: SmartTag[];
+  outputTags: string[];
+}
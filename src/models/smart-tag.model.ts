@@ -1,7 +1,15 @@
+import type { ApiErrorCode } from '../../shared/api-error';
+import type { DetectedMeta } from '../../shared/curriculum';
+
+export type { DetectedMeta } from '../../shared/curriculum';
+
 export type Intent = 'learn' | 'test' | 'revise' | 'doubt';
 
 export type TagCategory = 'Persona Style' | 'Add Context' | 'Task Instruction' | 'Format Constraints' | 'Reasoning Help';
 
+// The two tag builders; intents and personas differ between them
+export type TagBuilder = 'smart-tag' | 'prompt-builder';
+
 export interface SmartTag {
   text: string;
   category: TagCategory;
@@ -25,6 +33,20 @@ export interface SmartTagsResponse {
   };
   tags: string[]; // Flat list for backward compatibility or simple use
   fallback?: boolean;
+  code?: ApiErrorCode; // Why the fallback was used
+  message?: string;
+  metadata?: DetectedMeta;
+}
+
+// Keys of SmartTagsResponse.groups, also used to name a category to regenerate
+export type TagGroupKey = keyof NonNullable<SmartTagsResponse['groups']>;
+
+export interface CategoryTagsResponse {
+  success: boolean;
+  category: TagGroupKey;
+  tags: string[];
+  fallback?: boolean;
+  code?: ApiErrorCode;
   message?: string;
   metadata?: DetectedMeta;
 }
@@ -33,14 +55,10 @@ export interface OutputSuggestionsResponse {
   success: boolean;
   suggestions: string[];
   fallback?: boolean;
+  code?: ApiErrorCode;
   message?: string;
 }
 
-export interface DetectedMeta {
-  class?: number;
-  board?: string;
-  subject?: string;
-}
 
 export interface TagItem {
   id: string;
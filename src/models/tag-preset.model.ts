@@ -0,0 +1,18 @@
+import { SmartTag, TagBuilder } from './smart-tag.model';
+
+export interface TagPreset {
+  id: string;
+  name: string;
+  // Which builder saved the preset
+  builder: TagBuilder;
+  createdAt: string;
+  intent: string;
+  // Prompt builder only
+  persona?: string;
+  classLevel?: number;
+  // The topic the preset was saved with, used when the topic box is empty
+  topicPattern: string;
+  // Stored by text, not ID: tag IDs are regenerated every time suggestions load
+  tags: SmartTag[];
+  outputTags: string[];
+}
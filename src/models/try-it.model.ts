@@ -0,0 +1,14 @@
+import type { TextMetrics } from '../../shared/text-metrics';
+
+export interface TryItAnswer {
+  answer: string;
+  metrics: TextMetrics;
+  // Served from the server cache instead of a new model call
+  cached: boolean;
+}
+
+// Response of /api/gemini/try: the same model answering both prompts
+export interface TryItResult {
+  original: TryItAnswer;
+  improved: TryItAnswer;
+}
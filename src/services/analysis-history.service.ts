@@ -0,0 +1,198 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom, Observable } from 'rxjs';
+import { environment } from '../environments/environment';
+import { AnalysisHistoryEntry } from '../models/analysis-history.model';
+import { PromptAnalysis } from '../models/prompt-analysis.model';
+import { RUBRIC_DIMENSIONS } from '../../shared/rubric';
+import { reportApiError } from './api-error';
+
+const DB_NAME = 'betterask';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+// Oldest analyses are dropped beyond this
+const MAX_ENTRIES = 500;
+
+const HISTORY_KEY = 'betterask_history_key';
+
+// Identifies this browser to the history sync API. Unlike the session ID it
+// survives closing the tab, which is the point of keeping history.
+function getHistoryKey(): string {
+  let key = localStorage.getItem(HISTORY_KEY);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(HISTORY_KEY, key);
+  }
+  return key;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    // Private browsing and locked-down school devices can refuse storage; history then lasts until reload
+    request.onerror = () => resolve(null);
+  });
+}
+
+// Deep-copies a value with every string passed through `map`
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+// What the sync API receives: personal details go back into the placeholders the
+// model saw, so the server copy holds nothing the model did not
+function forSync(entry: AnalysisHistoryEntry): AnalysisHistoryEntry {
+  const redactions = [...(entry.analysis.redactions ?? [])].sort((a, b) => b.value.length - a.value.length);
+  if (redactions.length === 0) return entry;
+  const redact = (text: string) => redactions.reduce((result, r) => result.split(r.value).join(r.placeholder), text);
+  const { redactions: _, ...analysis } = entry.analysis;
+  return mapStrings({ ...entry, analysis }, redact);
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Keeps every finished analysis in IndexedDB, newest first, and mirrors it to
+ * /api/history when `environment.historySync` is on. Saving never blocks or
+ * fails an analysis: storage and sync problems are only logged.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AnalysisHistoryService {
+  private readonly http = inject(HttpClient);
+  private readonly endpoint = `${environment.apiBase}/history`;
+  private readonly db = openDatabase();
+
+  readonly entries = signal<AnalysisHistoryEntry[]>([]);
+
+  constructor() {
+    this.load();
+  }
+
+  async add(prompt: string, analysis: PromptAnalysis): Promise<AnalysisHistoryEntry> {
+    const entry: AnalysisHistoryEntry = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      prompt,
+      score: analysis.score,
+      rubric: analysis.rubric,
+      analysis
+    };
+    const kept = [entry, ...this.entries()];
+    this.entries.set(kept.slice(0, MAX_ENTRIES));
+
+    await this.write(store => {
+      store.put(entry);
+      for (const old of kept.slice(MAX_ENTRIES)) store.delete(old.id);
+    });
+    this.sync(() => this.http.put(`${this.endpoint}/${entry.id}`, forSync(entry), { headers: this.syncHeaders() }));
+    return entry;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.update(list => list.filter(entry => entry.id !== id));
+    await this.write(store => store.delete(id));
+    this.sync(() => this.http.delete(`${this.endpoint}/${id}`, { headers: this.syncHeaders() }));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.set([]);
+    await this.write(store => store.clear());
+    this.sync(() => this.http.delete(this.endpoint, { headers: this.syncHeaders() }));
+  }
+
+  /** Downloads the whole history as JSON (everything) or CSV (headline fields and sub-scores). */
+  export(format: 'json' | 'csv'): void {
+    const entries = this.entries();
+    let content: string;
+    if (format === 'json') {
+      content = JSON.stringify(entries, null, 2);
+    } else {
+      const header = ['createdAt', 'score', ...RUBRIC_DIMENSIONS, 'prompt'];
+      const rows = entries.map(entry => [
+        entry.createdAt,
+        entry.score,
+        ...RUBRIC_DIMENSIONS.map(dimension => entry.rubric?.[dimension]?.score),
+        entry.prompt
+      ].map(csvCell).join(','));
+      content = [header.join(','), ...rows].join('\n');
+    }
+
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `betterask-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async load(): Promise<void> {
+    const db = await this.db;
+    const local: AnalysisHistoryEntry[] = db
+      ? await promisify(db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()).catch(() => [])
+      : [];
+    this.entries.set(this.sorted(local));
+
+    if (!environment.historySync) return;
+    // Entries synced from an earlier visit that this browser no longer has (e.g. storage was cleared)
+    try {
+      const { entries: remote } = await firstValueFrom(
+        this.http.get<{ entries: AnalysisHistoryEntry[] }>(this.endpoint, { headers: this.syncHeaders() })
+      );
+      const known = new Set(this.entries().map(entry => entry.id));
+      const missing = remote.filter(entry => !known.has(entry.id));
+      if (missing.length === 0) return;
+      this.entries.update(list => this.sorted([...list, ...missing]).slice(0, MAX_ENTRIES));
+      await this.write(store => missing.forEach(entry => store.put(entry)));
+    } catch (error) {
+      reportApiError('History sync', error);
+    }
+  }
+
+  private sorted(entries: AnalysisHistoryEntry[]): AnalysisHistoryEntry[] {
+    return [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async write(change: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    change(transaction.objectStore(STORE_NAME));
+    await new Promise<void>(resolve => {
+      transaction.oncomplete = () => resolve();
+      // A failed save leaves the entry in memory for this visit
+      transaction.onerror = () => resolve();
+    });
+  }
+
+  private sync(call: () => Observable<unknown>): void {
+    if (!environment.historySync) return;
+    firstValueFrom(call()).catch(error => reportApiError('History sync', error));
+  }
+
+  private syncHeaders(): Record<string, string> {
+    return { 'X-History-Key': getHistoryKey() };
+  }
+}
@@ -0,0 +1,133 @@
+import { isDevMode } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ApiError, ApiErrorCode } from '../../shared/api-error';
+
+export { ApiError } from '../../shared/api-error';
+export type { ApiErrorCode } from '../../shared/api-error';
+
+// How a component should present a failure, whichever request produced it
+export type ErrorUiKind = 'cooldown' | 'offline' | 'retry' | 'unavailable' | 'invalid';
+
+export interface ErrorUiState {
+  kind: ErrorUiKind;
+  title: string;
+  message: string;
+  // Only for 'cooldown': seconds before the action should be re-enabled
+  retryAfterSeconds?: number;
+}
+
+const UI_KIND_BY_CODE: Record<ApiErrorCode, ErrorUiKind> = {
+  VALIDATION_FAILED: 'invalid',
+  CONTENT_BLOCKED: 'invalid',
+  RATE_LIMITED: 'cooldown',
+  QUOTA_EXCEEDED: 'cooldown',
+  AUTH_FAILED: 'unavailable',
+  MODEL_ACCESS_DENIED: 'unavailable',
+  ACCESS_DENIED: 'unavailable',
+  NOT_CONFIGURED: 'unavailable',
+  PROVIDER_UNAVAILABLE: 'retry',
+  MODEL_RESPONSE_INVALID: 'retry',
+  STREAM_INTERRUPTED: 'retry',
+  BACKEND_UNREACHABLE: 'offline',
+  INTERNAL: 'retry'
+};
+
+const UI_TITLES: Record<ErrorUiKind, string> = {
+  cooldown: 'Slow down',
+  offline: 'Connection problem',
+  retry: 'Something went wrong',
+  unavailable: 'Service unavailable',
+  invalid: 'Check your input'
+};
+
+// Developer-facing next steps, printed to the console in dev mode only
+const DEV_HINTS: Partial<Record<ApiErrorCode, string>> = {
+  AUTH_FAILED: 'Check GEMINI_API_SECRET / OPENAI_API_KEY in the backend .env file (new Gemini key: https://aistudio.google.com/apikey)',
+  MODEL_ACCESS_DENIED: 'Verify LLM_MODEL exists and your API key has access to it',
+  NOT_CONFIGURED: 'Set GEMINI_API_SECRET (or LLM_PROVIDER / MOCK_LLM=true) and restart the backend',
+  QUOTA_EXCEEDED: 'The provider quota is exhausted; wait or upgrade the API plan',
+  PROVIDER_UNAVAILABLE: 'The backend cannot reach the AI provider; check its internet connection',
+  BACKEND_UNREACHABLE: 'Start the backend with: npm run server:start (expected at http://localhost:3001)',
+  MODEL_RESPONSE_INVALID: 'The model returned malformed JSON; check the backend logs for the request ID'
+};
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+// Best-effort codes for responses without an ApiErrorBody. Our server always
+// sends one, so a bare 502/504 comes from a proxy that could not reach it.
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  0: 'BACKEND_UNREACHABLE',
+  400: 'VALIDATION_FAILED',
+  401: 'AUTH_FAILED',
+  403: 'MODEL_ACCESS_DENIED',
+  422: 'CONTENT_BLOCKED',
+  429: 'RATE_LIMITED',
+  502: 'BACKEND_UNREACHABLE',
+  503: 'PROVIDER_UNAVAILABLE',
+  504: 'BACKEND_UNREACHABLE'
+};
+
+/** Builds a UI state for problems detected on the client (validation, offline, empty results). */
+export function errorUiState(kind: ErrorUiKind, message: string): ErrorUiState {
+  return { kind, title: UI_TITLES[kind], message };
+}
+
+/** Converts anything a request can fail with into an ApiError. */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof HttpErrorResponse) {
+    const requestId = error.headers?.get('X-Request-Id') ?? undefined;
+    const headerRetryAfter = Number(error.headers?.get('Retry-After')) || undefined;
+    const fromBody = error.status === 0 ? null : ApiError.fromBody(error.error);
+    if (fromBody) {
+      return new ApiError(fromBody.code, {
+        message: fromBody.message,
+        retryAfter: fromBody.retryAfter ?? headerRetryAfter,
+        requestId: fromBody.requestId ?? requestId,
+        issues: fromBody.issues,
+        details: fromBody.details
+      });
+    }
+    return new ApiError(CODE_BY_STATUS[error.status] ?? 'INTERNAL', { retryAfter: headerRetryAfter, requestId });
+  }
+
+  return new ApiError('INTERNAL', { details: error instanceof Error ? error.message : String(error) });
+}
+
+/** Maps an error (or a fallback reason code) to the state every component renders the same way. */
+export function toErrorUiState(error: unknown): ErrorUiState {
+  const apiError = toApiError(error);
+  const kind = UI_KIND_BY_CODE[apiError.code];
+  let message = apiError.message;
+  if (apiError.issues?.length) {
+    message += ` ${apiError.issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}.`;
+  }
+  // The request ID lets support find the matching server log line (not needed when the student must rephrase)
+  if (apiError.requestId && kind !== 'cooldown' && apiError.code !== 'CONTENT_BLOCKED') {
+    message += ` (Request ID: ${apiError.requestId})`;
+  }
+
+  return {
+    kind,
+    title: UI_TITLES[kind],
+    message,
+    ...(kind === 'cooldown' && { retryAfterSeconds: apiError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS })
+  };
+}
+
+/** Logs a failed request with a diagnosis in dev mode and returns it as an ApiError. */
+export function reportApiError(context: string, error: unknown): ApiError {
+  const apiError = toApiError(error);
+  if (isDevMode()) {
+    console.error(`❌ [FRONTEND] ${context} failed: ${apiError.code}`, {
+      message: apiError.message,
+      requestId: apiError.requestId,
+      retryAfter: apiError.retryAfter,
+      details: apiError.details
+    });
+    const hint = DEV_HINTS[apiError.code];
+    if (hint) console.error(`   Action: ${hint}`);
+  }
+  return apiError;
+}
@@ -0,0 +1,33 @@
+import { TagCategory } from '../models/smart-tag.model';
+
+// Wait this long after the last pick before asking for complementary tags
+export const COMPLEMENTARY_TAGS_DELAY_MS = 800;
+
+// Complementary tags stop being added to a category once it shows this many
+export const MAX_TAGS_PER_CATEGORY = 4;
+
+/**
+ * Adds stage-2 suggestions to the tags already shown. Each new tag goes after
+ * the last one of its category, so the list stays grouped; repeats (ignoring
+ * case) and tags for a full category are skipped. Shown tags are never changed.
+ */
+export function mergeComplementaryTags<T extends { text: string; category: TagCategory }>(
+  available: T[],
+  incoming: T[],
+  maxPerCategory = MAX_TAGS_PER_CATEGORY
+): T[] {
+  const merged = [...available];
+  const seen = new Set(available.map(t => t.text.toLowerCase()));
+
+  for (const tag of incoming) {
+    const key = tag.text.toLowerCase();
+    if (seen.has(key)) continue;
+    const sameCategory = merged.filter(t => t.category === tag.category);
+    if (sameCategory.length >= maxPerCategory) continue;
+
+    seen.add(key);
+    const last = sameCategory[sameCategory.length - 1];
+    merged.splice(last ? merged.indexOf(last) + 1 : merged.length, 0, tag);
+  }
+  return merged;
+}
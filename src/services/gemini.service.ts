@@ -1,9 +1,13 @@
 import { Injectable, isDevMode } from '@angular/core';
-import { HttpClient, HttpErrorResponse } from '@angular/common/http';
-import { firstValueFrom } from 'rxjs';
-import { PromptAnalysis } from '../models/prompt-analysis.model';
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom, Observable } from 'rxjs';
+import { AnalysisStreamEvent, PromptAnalysis } from '../models/prompt-analysis.model';
 import { environment } from '../environments/environment';
-import { SmartTag, TagCategory } from '../models/smart-tag.model';
+import { DetectedMeta, SmartTag, TagCategory } from '../models/smart-tag.model';
+import { TryItResult } from '../models/try-it.model';
+import { detectCurriculum } from '../../shared/curriculum';
+import { sessionHeaders } from './session-id.interceptor';
+import { ApiError, ApiErrorCode, reportApiError } from './api-error';
 
 // Define interface for Tag Response from API
 export interface ApiTagResponse {
@@ -17,6 +21,8 @@ export interface ApiTagResponse {
   };
   tags: string[];
   fallback?: boolean;
+  // Why the fallback was used (same codes as error responses)
+  code?: ApiErrorCode;
   message?: string;
 }
 
@@ -24,6 +30,7 @@ export interface ServiceTagResponse {
   success: boolean;
   tags: SmartTag[];
   fallback?: boolean;
+  code?: ApiErrorCode;
   message?: string;
 }
 
@@ -31,6 +38,7 @@ export interface OutputSuggestionResponse {
   success: boolean;
   suggestions: string[];
   fallback?: boolean;
+  code?: ApiErrorCode;
   message?: string;
 }
 
@@ -46,14 +54,14 @@ export class GeminiService {
     persona: string;
     selectedSmartTags?: string[];
     selectedOutputTags?: string[];
+    detected?: DetectedMeta;
   }): Promise<OutputSuggestionResponse> {
     const endpoint = `${environment.apiBase}/tags/output-suggestions`;
     try {
       const resp$ = this.http.post<OutputSuggestionResponse>(endpoint, params);
       return await firstValueFrom(resp$);
     } catch (error) {
-      console.error('Failed to generate output suggestions:', error);
-      return { success: false, suggestions: [], message: (error as any).message };
+      throw reportApiError('Output suggestions', error);
     }
   }
 
@@ -65,6 +73,7 @@ export class GeminiService {
     selectedTags?: string[];
     visibleTags?: string[];
     avoidDuplicates?: boolean;
+    detected?: DetectedMeta;
   }): Promise<ServiceTagResponse> {
     const endpoint = `${environment.apiBase}/tags/generate`;
     try {
@@ -91,11 +100,22 @@ export class GeminiService {
         success: result.success, 
         tags: smartTags, 
         fallback: result.fallback, 
+        code: result.code,
         message: result.message 
       };
     } catch (error) {
-      console.error('Failed to generate tags:', error);
-      return { success: false, tags: [], message: (error as any).message };
+      throw reportApiError('Smart tags', error);
+    }
+  }
+
+  /** Runs the original and improved prompts through the model for a side-by-side comparison. */
+  async tryPrompts(studentPrompt: string, improvedPrompt: string): Promise<TryItResult> {
+    const endpoint = `${environment.apiBase}/gemini/try`;
+    try {
+      const resp$ = this.http.post<TryItResult>(endpoint, { studentPrompt, improvedPrompt });
+      return await firstValueFrom(resp$);
+    } catch (error) {
+      throw reportApiError('Try it', error);
     }
   }
 
@@ -112,7 +132,8 @@ export class GeminiService {
     
     try {
       const startTime = Date.now();
-      const resp$ = this.http.post<PromptAnalysis>(endpoint, { studentPrompt });
+      // The syllabus chapter lets the model judge context against what the student is studying
+      const resp$ = this.http.post<PromptAnalysis>(endpoint, { studentPrompt, detected: detectCurriculum(studentPrompt) });
       const result = await firstValueFrom(resp$);
       const responseTime = Date.now() - startTime;
       
@@ -125,111 +146,105 @@ export class GeminiService {
         console.log('─────────────────────────────────────────\n');
       }
       
+      this.reportFallback(result);
       return result;
     } catch (error) {
-      if (isDev) {
-        console.error('\n❌ [FRONTEND] API call failed');
-        console.error('   Error type:', error instanceof HttpErrorResponse ? 'HTTP Error' : 'Unknown Error');
-      }
-      
-      if (error instanceof HttpErrorResponse) {
-        if (isDev) {
-          console.error('   HTTP Status:', error.status);
-          console.error('   Status text:', error.statusText);
-          console.error('   Error body:', error.error);
-          console.error('   URL:', error.url);
-        }
-        
-        // 401: Authentication/API key issues
-        if (error.status === 401) {
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Authentication failed');
-            console.error('   Reason: Invalid or expired Gemini API key');
-            console.error('   Action: Check GEMINI_API_SECRET in backend .env file');
-            console.error('   Get new key: https://aistudio.google.com/apikey');
-            console.error('─────────────────────────────────────────\n');
-          }
-          throw new Error('Authentication failed. Please check API configuration.');
-        } 
-        
-        // 429: Rate limit/quota exceeded
-        else if (error.status === 429) {
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Rate limit or quota exceeded');
-            console.error('   Reason: Too many requests or API quota exhausted');
-            console.error('   Action: Wait 60 seconds and try again, or upgrade API plan');
-            console.error('   Details:', error.error?.details || 'No additional details');
-            console.error('─────────────────────────────────────────\n');
-          }
-          throw new Error('API quota exceeded. Please try again in a minute.');
-        } 
-        
-        // 403: Permission/model access denied
-        else if (error.status === 403) {
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Access forbidden');
-            console.error('   Reason: Model access denied or insufficient permissions');
-            console.error('   Action: Verify API key has access to gemini-2.5-flash model');
-            console.error('   Details:', error.error?.details || 'No additional details');
-            console.error('─────────────────────────────────────────\n');
-          }
-          throw new Error('Access denied. Model may not be available for your API key.');
+      throw reportApiError('Prompt analysis', error);
+    }
+  }
+
+  /**
+   * Streams an analysis as it is generated: the score first, then feedback text
+   * in pieces, then each improved-prompt field, and finally the full result.
+   * Unsubscribing aborts the request.
+   */
+  analyzeStudentPromptStream(studentPrompt: string): Observable<AnalysisStreamEvent> {
+    const endpoint = `${environment.apiBase}/gemini/analyze/stream`;
+
+    return new Observable<AnalysisStreamEvent>(subscriber => {
+      const controller = new AbortController();
+
+      const run = async () => {
+        let response: Response;
+        try {
+          response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'text/event-stream',
+              // fetch bypasses HttpClient interceptors, so add the session headers by hand
+              ...sessionHeaders()
+            },
+            body: JSON.stringify({ studentPrompt, detected: detectCurriculum(studentPrompt) }),
+            signal: controller.signal
+          });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          // fetch only rejects on network failure, which HttpClient reports as status 0
+          throw new HttpErrorResponse({ status: 0, error, url: endpoint });
         }
-        
-        // 500: Server error
-        else if (error.status === 500) {
-          const errorMsg = error.error?.details || error.error?.error || 'Server error occurred';
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Server error');
-            console.error('   Reason:', errorMsg);
-            console.error('   Action: Check backend server console for detailed logs');
-            console.error('─────────────────────────────────────────\n');
-          }
-          throw new Error(`Server error: ${errorMsg}`);
-        } 
-        
-        // 503: Service unavailable
-        else if (error.status === 503) {
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Service unavailable');
-            console.error('   Reason: Cannot reach Gemini API');
-            console.error('   Action: Check internet connection');
-            console.error('─────────────────────────────────────────\n');
+
+        if (!response.ok || !response.body) {
+          const body = await response.json().catch(() => null);
+          const headers: Record<string, string> = {};
+          for (const name of ['Retry-After', 'X-Request-Id']) {
+            const value = response.headers.get(name);
+            if (value) headers[name] = value;
           }
-          throw new Error('Service temporarily unavailable. Check your internet connection.');
+          throw new HttpErrorResponse({
+            status: response.status,
+            statusText: response.statusText,
+            error: body,
+            headers: new HttpHeaders(headers),
+            url: endpoint
+          });
         }
-        
-        // 0: Connection refused (backend not running)
-        else if (error.status === 0) {
-          if (isDev) {
-            console.error('\n🔴 [DIAGNOSIS] Cannot connect to backend');
-            console.error('   Reason: Backend server is not running or unreachable');
-            console.error('   Action: Start backend with: npm run server:start');
-            console.error('   Expected URL: http://localhost:3001');
-            console.error('─────────────────────────────────────────\n');
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // SSE frames are separated by a blank line
+          const frames = buffer.split('\n\n');
+          buffer = frames.pop() || '';
+          for (const frame of frames) {
+            const event = frame.match(/^event: (.*)$/m)?.[1];
+            const data = frame.match(/^data: (.*)$/m)?.[1];
+            if (!event || !data) continue;
+            const payload = JSON.parse(data);
+
+            if (event === 'error') {
+              throw ApiError.fromBody(payload) ?? new ApiError('STREAM_INTERRUPTED');
+            } else if (event === 'done') {
+              this.reportFallback(payload);
+              subscriber.next({ type: 'done', analysis: payload });
+            } else {
+              subscriber.next({ type: event, ...payload } as AnalysisStreamEvent);
+            }
           }
-          throw new Error('Backend server is not running. Please start the server.');
         }
-        
-        // Other HTTP errors
-        if (isDev) {
-          console.error('\n🔴 [DIAGNOSIS] Unexpected HTTP error');
-          console.error('   Status:', error.status);
-          console.error('   Message:', error.error?.error || error.message);
-          console.error('─────────────────────────────────────────\n');
+        subscriber.complete();
+      };
+
+      run().catch(error => {
+        if (!controller.signal.aborted) {
+          subscriber.error(reportApiError('Prompt analysis', error));
         }
-        throw new Error(error.error?.error || error.message || 'An unexpected error occurred');
-      }
-      
-      // Non-HTTP errors
-      if (isDev) {
-        console.error('\n🔴 [DIAGNOSIS] Non-HTTP error');
-        console.error('   Error:', error);
-        console.error('─────────────────────────────────────────\n');
-      }
-      throw error;
-    }
-  }
+      });
 
+      return () => controller.abort();
+    });
+  }
 
-}
\ No newline at end of file
+  // An offline-scored analysis is still a failed AI call; keep the dev-mode diagnosis
+  private reportFallback(analysis: PromptAnalysis): void {
+    if (analysis.fallback && analysis.code) {
+      reportApiError('Prompt analysis (offline scorer used)', new ApiError(analysis.code, { message: analysis.message }));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable, signal } from '@angular/core';
+import { TagBuilder } from '../models/smart-tag.model';
+import { RecentPrompt } from '../models/recent-prompt.model';
+
+const RECENT_PROMPTS_KEY = 'betterask_recent_prompts';
+const OPT_IN_KEY = 'betterask_recent_prompts_opt_in';
+// Newest prompts kept per builder
+const MAX_PER_BUILDER = 10;
+// Saved prompts older than this are dropped
+export const RECENT_PROMPTS_RETENTION_DAYS = 7;
+const RETENTION_MS = RECENT_PROMPTS_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Recent prompts from both tag builders. By default they live in memory only
+ * and are gone on reload; a student who opts in keeps them in localStorage
+ * for the retention window. Opting out deletes the saved copy.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RecentPromptsService {
+  private _persist = signal<boolean>(localStorage.getItem(OPT_IN_KEY) === 'true');
+  private _entries = signal<RecentPrompt[]>(this._persist() ? this.read() : []);
+
+  // Newest first
+  readonly entries = this._entries.asReadonly();
+  readonly persist = this._persist.asReadonly();
+
+  forBuilder(builder: TagBuilder): RecentPrompt[] {
+    return this._entries().filter(e => e.builder === builder);
+  }
+
+  add(entry: Omit<RecentPrompt, 'id' | 'timestamp'>): void {
+    const recent: RecentPrompt = { ...entry, id: crypto.randomUUID(), timestamp: Date.now() };
+    const sameBuilder = this.forBuilder(entry.builder);
+    // The same prompt copied twice is one entry
+    const repeat = sameBuilder.find(e => e.prompt === entry.prompt);
+    const dropped = new Set([repeat, ...sameBuilder.filter(e => e !== repeat).slice(MAX_PER_BUILDER - 1)]);
+    this.write([recent, ...this._entries().filter(e => !dropped.has(e))]);
+  }
+
+  remove(id: string): void {
+    this.write(this._entries().filter(e => e.id !== id));
+  }
+
+  clear(): void {
+    this._entries.set([]);
+    localStorage.removeItem(RECENT_PROMPTS_KEY);
+    // Written by older versions of the smart tag builder
+    sessionStorage.removeItem(RECENT_PROMPTS_KEY);
+  }
+
+  setPersist(persist: boolean): void {
+    this._persist.set(persist);
+    if (persist) {
+      localStorage.setItem(OPT_IN_KEY, 'true');
+      this.write(this._entries());
+    } else {
+      localStorage.removeItem(OPT_IN_KEY);
+      localStorage.removeItem(RECENT_PROMPTS_KEY);
+    }
+  }
+
+  private read(): RecentPrompt[] {
+    try {
+      const entries = JSON.parse(localStorage.getItem(RECENT_PROMPTS_KEY) || '[]');
+      return Array.isArray(entries) ? this.withinRetention(entries) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private withinRetention(entries: RecentPrompt[]): RecentPrompt[] {
+    const cutoff = Date.now() - RETENTION_MS;
+    return entries.filter(e => e.timestamp >= cutoff);
+  }
+
+  private write(entries: RecentPrompt[]): void {
+    const kept = this.withinRetention(entries);
+    this._entries.set(kept);
+    if (!this._persist()) return;
+    try {
+      localStorage.setItem(RECENT_PROMPTS_KEY, JSON.stringify(kept));
+    } catch (error) {
+      // Storage can be full or disabled; prompts then last until reload
+      console.warn('[Recent prompts] Could not save recent prompts', error);
+    }
+  }
+}
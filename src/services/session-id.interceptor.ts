@@ -0,0 +1,27 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { environment } from '../environments/environment';
+
+const SESSION_ID_KEY = 'betterask_session_id';
+
+// Identifies this browser tab to the backend so rate limits apply per student,
+// not per school network. Lives only as long as the tab session.
+export function getSessionId(): string {
+  let id = sessionStorage.getItem(SESSION_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_ID_KEY, id);
+  }
+  return id;
+}
+
+// Headers identifying this tab and, when this build has one, the school (which
+// selects the school's moderation policy on the backend)
+export function sessionHeaders(): Record<string, string> {
+  return {
+    'X-Session-Id': getSessionId(),
+    ...(environment.schoolId && { 'X-School-Id': environment.schoolId })
+  };
+}
+
+export const sessionIdInterceptor: HttpInterceptorFn = (req, next) =>
+  next(req.clone({ setHeaders: sessionHeaders() }));
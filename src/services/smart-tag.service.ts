@@ -9,9 +9,32 @@ import {
   SmartTagsResponse, 
   PromptRequest,
   TagCategory,
+  SmartTag,
   OutputTagItem,
-  OutputSuggestionsResponse
+  OutputSuggestionsResponse,
+  CategoryTagsResponse,
+  TagGroupKey
 } from '../models/smart-tag.model';
+import { TagPreset } from '../models/tag-preset.model';
+import { RecentPrompt } from '../models/recent-prompt.model';
+import { detectCurriculum } from '../../shared/curriculum';
+import { OUTPUT_FORMAT_CATEGORY, TagConflict, detectTagConflicts } from '../../shared/tag-conflicts';
+import { ApiError, ErrorUiState, errorUiState, reportApiError, toErrorUiState } from './api-error';
+import { RecentPromptsService } from './recent-prompts.service';
+import { TagPresetService, pinPresetTags } from './tag-preset.service';
+import { COMPLEMENTARY_TAGS_DELAY_MS, mergeComplementaryTags } from './complementary-tags';
+
+// Map backend categories to frontend categories
+const GROUP_CATEGORIES: Record<TagGroupKey, TagCategory> = {
+  'personaStyle': 'Persona Style',
+  'addContext': 'Add Context',
+  'taskInstruction': 'Task Instruction',
+  'formatConstraints': 'Format Constraints',
+  'reasoningHelp': 'Reasoning Help'
+};
+
+// Tags swapped out by category refreshes that are still kept from coming back
+const MAX_REPLACED_TAGS = 30;
 
 @Injectable({
   providedIn: 'root'
@@ -25,15 +48,15 @@ export class SmartTagService {
   private _selectedTags = signal<TagItem[]>([]);
   private _finalPrompt = signal<string>('');
   private _isLoading = signal<boolean>(false);
-  private _error = signal<string | null>(null);
+  private _error = signal<ErrorUiState | null>(null);
   private _isDefaultPrompt = signal<boolean>(false);
-  private _conflictWarnings = signal<string[]>([]);
   private _isOnboardingComplete = signal<boolean>(false);
   private _showOnboarding = signal<boolean>(false);
   private _isOffline = signal<boolean>(false);
-  private _recentPrompts = signal<Array<{ topic: string; prompt: string; timestamp: number }>>([]);
   private _outputTags = signal<OutputTagItem[]>([]);
   private _selectedOutputTags = signal<OutputTagItem[]>([]);
+  private _isLoadingComplementary = signal<boolean>(false);
+  private _refreshingCategory = signal<TagCategory | null>(null);
   
   // Public readonly signals
   readonly intent = this._intent.asReadonly();
@@ -45,13 +68,13 @@ export class SmartTagService {
   readonly isLoading = this._isLoading.asReadonly();
   readonly error = this._error.asReadonly();
   readonly isDefaultPrompt = this._isDefaultPrompt.asReadonly();
-  readonly conflictWarnings = this._conflictWarnings.asReadonly();
   readonly isOnboardingComplete = this._isOnboardingComplete.asReadonly();
   readonly showOnboarding = this._showOnboarding.asReadonly();
   readonly isOffline = this._isOffline.asReadonly();
-  readonly recentPrompts = this._recentPrompts.asReadonly();
   readonly outputTags = this._outputTags.asReadonly();
   readonly selectedOutputTags = this._selectedOutputTags.asReadonly();
+  readonly isLoadingComplementary = this._isLoadingComplementary.asReadonly();
+  readonly refreshingCategory = this._refreshingCategory.asReadonly();
   
   // Computed signals
   readonly canGeneratePrompt = computed(() => 
@@ -63,11 +86,37 @@ export class SmartTagService {
   readonly selectedOutputCount = computed(() => this._selectedOutputTags().length);
   readonly totalSelectedCount = computed(() => this._selectedTags().length + this._selectedOutputTags().length);
   readonly canSelectMore = computed(() => this.totalSelectedCount() < 10);
+
+  // Selected smart tags and output formats that work against each other, most severe first
+  readonly conflicts = computed(() => detectTagConflicts([
+    ...this._selectedTags(),
+    ...this._selectedOutputTags().map(t => ({ text: t.text, category: OUTPUT_FORMAT_CATEGORY }))
+  ]));
+
+  // Presets saved from this builder, newest first
+  readonly presets = computed(() => this.presetService.forBuilder('smart-tag'));
+  readonly hasPreset = computed(() => this.presets().length > 0);
+
+  // Prompts generated here, newest first
+  readonly recentPrompts = computed(() => this.recentPromptsService.forBuilder('smart-tag'));
   
   // Debounce timer
   private debounceTimer: any = null;
+  private complementaryTimer: any = null;
+
+  // Bumped whenever the shown tags are replaced, so late complementary tags for old ones are dropped
+  private suggestionRound = 0;
+  private tagIdCount = 0;
+
+  // Tags a category refresh took off screen, sent as visible so a student cycling
+  // through a category sees new ideas each time
+  private replacedTags: string[] = [];
   
-  constructor(private http: HttpClient) {
+  constructor(
+    private http: HttpClient,
+    private presetService: TagPresetService,
+    private recentPromptsService: RecentPromptsService
+  ) {
     // Check onboarding status
     const hasSeenOnboarding = localStorage.getItem('betterask_onboarding_complete');
     this._isOnboardingComplete.set(hasSeenOnboarding === 'true');
@@ -77,9 +126,6 @@ export class SmartTagService {
       this._showOnboarding.set(true);
     }
     
-    // Load recent prompts from sessionStorage
-    this.loadRecentPrompts();
-    
     // Check online status
     this.checkOnlineStatus();
     window.addEventListener('online', () => this._isOffline.set(false));
@@ -116,6 +162,7 @@ export class SmartTagService {
       }, 500);
     } else {
       // Clear tags if topic too short
+      this.cancelComplementaryTags();
       this._availableTags.set([]);
       this._selectedTags.set([]);
       this._outputTags.set([]);
@@ -123,41 +170,9 @@ export class SmartTagService {
     }
   }
   
-  // Detect metadata from topic (simple heuristic)
+  // Detect board, class, subject and chapter from the topic
   detectMetaFromTopic(topic: string): void {
-    const topicLower = topic.toLowerCase();
-    
-    // Simple detection logic
-    let detectedClass = 10;
-    let detectedBoard = 'CBSE';
-    let detectedSubject = 'General';
-    
-    // Detect class mentions
-    const classMatch = topicLower.match(/class\s*(\d+)|(\d+)th\s*class|grade\s*(\d+)/);
-    if (classMatch) {
-      detectedClass = parseInt(classMatch[1] || classMatch[2] || classMatch[3]);
-    }
-    
-    // Detect board mentions
-    if (topicLower.includes('icse')) detectedBoard = 'ICSE';
-    else if (topicLower.includes('state')) detectedBoard = 'State Board';
-    
-    // Detect subject mentions
-    if (topicLower.includes('math') || topicLower.includes('algebra') || topicLower.includes('geometry')) {
-      detectedSubject = 'Mathematics';
-    } else if (topicLower.includes('science') || topicLower.includes('physics') || topicLower.includes('chemistry') || topicLower.includes('biology')) {
-      detectedSubject = 'Science';
-    } else if (topicLower.includes('english') || topicLower.includes('grammar') || topicLower.includes('literature')) {
-      detectedSubject = 'English';
-    } else if (topicLower.includes('history') || topicLower.includes('geography') || topicLower.includes('civics')) {
-      detectedSubject = 'Social Studies';
-    }
-    
-    this._detectedMeta.set({
-      class: detectedClass,
-      board: detectedBoard,
-      subject: detectedSubject
-    });
+    this._detectedMeta.set(detectCurriculum(topic));
   }
   
   // Load smart tags from backend
@@ -171,54 +186,32 @@ export class SmartTagService {
     
     // Check if offline
     if (this._isOffline()) {
-      this._error.set('No internet 📡. Using offline suggestions.');
+      this._error.set(errorUiState('offline', 'No internet 📡. Using offline suggestions.'));
       this.useFallbackTags();
       return;
     }
     
     if (manageLoading) this._isLoading.set(true);
     this._error.set(null);
+    this.cancelComplementaryTags();
     
     try {
       const endpoint = `${environment.apiBase}/tags/generate`; // Updated endpoint to match backend
+      const detectedMeta = this._detectedMeta();
       const response$ = this.http.post<SmartTagsResponse>(endpoint, {
         topic,
         intent,
-        detected: this._detectedMeta()
+        // persona is required by the endpoint's request schema
+        persona: this.personaFor(detectedMeta),
+        stage: 1,
+        detected: detectedMeta
       });
       
       const response = await firstValueFrom(response$);
       
       if (response.success) {
         // Convert response to TagItem array
-        const tags: TagItem[] = [];
-        let idCounter = 1;
-        
-        // Map backend categories to frontend categories
-        const categoryMap: Record<string, TagCategory> = {
-          'personaStyle': 'Persona Style',
-          'addContext': 'Add Context',
-          'taskInstruction': 'Task Instruction',
-          'formatConstraints': 'Format Constraints',
-          'reasoningHelp': 'Reasoning Help'
-        };
-
-        const groups = response.groups || {};
-        Object.keys(groups).forEach(backendCat => {
-           const frontendCat = categoryMap[backendCat];
-           // Only process if it's a valid frontend category
-           if (frontendCat) {
-             const categoryTags = (groups as any)[backendCat] || [];
-             categoryTags.forEach((text: string) => {
-               tags.push({
-                 id: `tag-${idCounter++}`,
-                 text,
-                 category: frontendCat,
-                 selected: false
-               });
-             });
-           }
-        });
+        const tags = this.toTagItems(response.groups, 'tag');
 
         // Ensure at least one tag exists for each category - REMOVED to respect API count
         /*
@@ -252,21 +245,21 @@ export class SmartTagService {
           this._detectedMeta.set(response.metadata);
         }
         
-        // If using fallback, show info message
+        // If using fallback, explain why
         if (response.fallback) {
-          this._error.set('Using fallback suggestions. API temporarily unavailable.');
+          this._error.set(response.code
+            ? toErrorUiState(new ApiError(response.code, { message: response.message }))
+            : errorUiState('retry', 'Using fallback suggestions. API temporarily unavailable.'));
         }
       } else {
-        this._error.set(response.message || 'Failed to generate tags');
+        this._error.set(errorUiState('retry', response.message || 'Failed to generate tags'));
         // Use fallback tags
         this.useFallbackTags();
       }
-    } catch (error: any) {
-      console.error('Error loading smart tags:', error);
-      
+    } catch (error) {
       // Use fallback tags on error
       this.useFallbackTags();
-      this._error.set('API error. Using fallback suggestions.');
+      this._error.set(toErrorUiState(reportApiError('Smart tags', error)));
     } finally {
       if (manageLoading) this._isLoading.set(false);
     }
@@ -292,6 +285,132 @@ export class SmartTagService {
     }
   }
   
+  // Ask for tags that go with the current picks once the student pauses
+  private scheduleComplementaryTags(): void {
+    clearTimeout(this.complementaryTimer);
+    this.complementaryTimer = setTimeout(() => this.loadComplementaryTags(), COMPLEMENTARY_TAGS_DELAY_MS);
+  }
+
+  private cancelComplementaryTags(): void {
+    this.suggestionRound++;
+    clearTimeout(this.complementaryTimer);
+    this._isLoadingComplementary.set(false);
+    this._refreshingCategory.set(null);
+    this.replacedTags = [];
+  }
+
+  // Stage 2: add complementary tags to their categories, keeping every shown tag and pick
+  async loadComplementaryTags(): Promise<void> {
+    const topic = this._topic();
+    const intent = this._intent();
+    const selectedTags = this._selectedTags();
+
+    if (!topic || topic.length < 4 || !intent || selectedTags.length === 0 || this._isOffline()) {
+      return;
+    }
+
+    const round = this.suggestionRound;
+    this._isLoadingComplementary.set(true);
+
+    try {
+      const detectedMeta = this._detectedMeta();
+      const response = await firstValueFrom(this.http.post<SmartTagsResponse>(`${environment.apiBase}/tags/generate`, {
+        topic,
+        intent,
+        persona: this.personaFor(detectedMeta),
+        stage: 2,
+        selectedTags: selectedTags.map(t => t.text),
+        visibleTags: this._availableTags().map(t => t.text),
+        detected: detectedMeta
+      }));
+
+      // The server's generic fallback list adds nothing that goes with the picks
+      if (round !== this.suggestionRound || !response.success || response.fallback) return;
+
+      this._availableTags.set(mergeComplementaryTags(this._availableTags(), this.toTagItems(response.groups, 'tag-more')));
+    } catch (error) {
+      // The first suggestions are still there, so this only goes to the console
+      reportApiError('Complementary tags', error);
+    } finally {
+      if (round === this.suggestionRound) this._isLoadingComplementary.set(false);
+    }
+  }
+
+  // Swap one category's unselected tags for new ones; selected tags stay pinned
+  async refreshCategory(category: TagCategory): Promise<void> {
+    const topic = this._topic();
+    const intent = this._intent();
+
+    if (!topic || topic.length < 4 || !intent) {
+      return;
+    }
+
+    if (this._isOffline()) {
+      this._error.set(errorUiState('offline', 'No internet 📡. New suggestions need a connection.'));
+      return;
+    }
+
+    const round = this.suggestionRound;
+    const group = (Object.keys(GROUP_CATEGORIES) as TagGroupKey[]).find(key => GROUP_CATEGORIES[key] === category)!;
+    this._refreshingCategory.set(category);
+    this._error.set(null);
+
+    try {
+      const detectedMeta = this._detectedMeta();
+      const response = await firstValueFrom(this.http.post<CategoryTagsResponse>(`${environment.apiBase}/tags/category`, {
+        topic,
+        intent,
+        persona: this.personaFor(detectedMeta),
+        category: group,
+        selectedTags: this._selectedTags().map(t => t.text),
+        visibleTags: [...new Set([...this._availableTags().map(t => t.text), ...this.replacedTags])],
+        detected: detectedMeta
+      }));
+
+      // Suggestions were reloaded meanwhile, so these belong to the old ones
+      if (round !== this.suggestionRound || !response.success) return;
+
+      const fresh = this.toTagItems({ [group]: response.tags }, 'tag-category');
+      if (fresh.length > 0) {
+        const available = this._availableTags();
+        const selectedIds = new Set(this._selectedTags().map(t => t.id));
+        const replaced = available.filter(t => t.category === category && !selectedIds.has(t.id));
+        this.replacedTags = [...this.replacedTags, ...replaced.map(t => t.text)].slice(-MAX_REPLACED_TAGS);
+        this._availableTags.set([...available.filter(t => !replaced.includes(t)), ...fresh]);
+      }
+
+      if (response.fallback) {
+        this._error.set(response.code
+          ? toErrorUiState(new ApiError(response.code, { message: response.message }))
+          : errorUiState('retry', 'Using fallback suggestions. API temporarily unavailable.'));
+      }
+    } catch (error) {
+      // The category keeps its current tags
+      this._error.set(toErrorUiState(reportApiError('Category tags', error)));
+    } finally {
+      if (round === this.suggestionRound) this._refreshingCategory.set(null);
+    }
+  }
+
+  // Map the server's tag groups to tag items, with ids unique across loads
+  private toTagItems(groups: Partial<Record<TagGroupKey, string[]>> | undefined, idPrefix: string): TagItem[] {
+    const tags: TagItem[] = [];
+    Object.entries(groups || {}).forEach(([backendCat, categoryTags]) => {
+      const category = GROUP_CATEGORIES[backendCat as TagGroupKey];
+      // Only process if it's a valid frontend category
+      if (!category) return;
+      (categoryTags || []).forEach((text: string) => {
+        tags.push({ id: `${idPrefix}-${++this.tagIdCount}`, text, category, selected: false });
+      });
+    });
+    return tags;
+  }
+
+  // persona is required by the tag endpoints' request schemas
+  private personaFor(detectedMeta: DetectedMeta | null): string {
+    return detectedMeta?.class ? `Class ${detectedMeta.class} student` : 'student';
+  }
+  
   // Fallback tags for offline/error scenarios
   private useFallbackTags(): void {
     const fallbackTags: TagItem[] = [
@@ -340,9 +459,10 @@ export class SmartTagService {
       const response$ = this.http.post<OutputSuggestionsResponse>(endpoint, {
         topic,
         intent,
-        persona: detectedMeta?.class ? `Class ${detectedMeta.class} student` : 'student',
+        persona: this.personaFor(detectedMeta),
         selectedSmartTags: selectedSmartTagTexts,
-        selectedOutputTags: selectedOutputTagTexts
+        selectedOutputTags: selectedOutputTagTexts,
+        detected: detectedMeta
       });
       
       const response = await firstValueFrom(response$);
@@ -387,7 +507,7 @@ export class SmartTagService {
         }
       }
     } catch (error) {
-      console.error('Error loading output suggestions:', error);
+      reportApiError('Output suggestions', error);
       this.useFallbackOutputTags();
     }
   }
@@ -436,7 +556,7 @@ export class SmartTagService {
       // Check total limit (smart tags + output tags <= 10)
       const totalSelected = selectedSmartTags.length + selectedOutputTags.length;
       if (totalSelected >= 10) {
-        this._error.set('Maximum 10 tags total (smart + output) can be selected');
+        this._error.set(errorUiState('invalid', 'Maximum 10 tags total (smart + output) can be selected'));
         return;
       }
       
@@ -466,14 +586,11 @@ export class SmartTagService {
       );
       this._availableTags.set(updated);
       this._selectedTags.set(selectedTags.filter(t => t.id !== tagId));
-      
-      // Re-detect conflicts after deselection
-      this.detectConflicts();
     } else {
       // Select (enforce max 10 total with output tags)
       const totalSelected = selectedTags.length + this._selectedOutputTags().length;
       if (totalSelected >= 10) {
-        this._error.set('Maximum 10 tags total (smart + output) can be selected');
+        this._error.set(errorUiState('invalid', 'Maximum 10 tags total (smart + output) can be selected'));
         return;
       }
       
@@ -483,53 +600,17 @@ export class SmartTagService {
       this._availableTags.set(updated);
       this._selectedTags.set([...selectedTags, { ...tag, selected: true }]);
       this._error.set(null);
-      
-      // Detect conflicts after selection
-      this.detectConflicts();
+      this.scheduleComplementaryTags();
     }
   }
   
-  // Detect conflicts in selected tags
-  private detectConflicts(): void {
-    const selectedTags = this._selectedTags();
-    const warnings: string[] = [];
-    
-    const tagTexts = selectedTags.map(t => t.text.toLowerCase());
-    
-    // Define conflict rules
-    const conflictRules = [
-      {
-        keywords: ['short', 'brief', 'concise'],
-        conflictsWith: ['detailed', 'comprehensive', 'in-depth', 'thorough'],
-        message: 'These tags might conflict. We recommend choosing either short/brief OR detailed/comprehensive.'
-      },
-      {
-        keywords: ['simple', 'basic', 'easy'],
-        conflictsWith: ['advanced', 'complex', 'technical'],
-        message: 'These tags might conflict. We recommend choosing either simple/easy OR advanced/technical.'
-      },
-      {
-        keywords: ['formal', 'professional'],
-        conflictsWith: ['casual', 'friendly', 'conversational'],
-        message: 'These tags might conflict. We recommend choosing either formal/professional OR casual/friendly.'
-      }
-    ];
-    
-    // Check each rule
-    for (const rule of conflictRules) {
-      const hasKeyword = tagTexts.some(text => 
-        rule.keywords.some(kw => text.includes(kw))
-      );
-      const hasConflict = tagTexts.some(text => 
-        rule.conflictsWith.some(kw => text.includes(kw))
-      );
-      
-      if (hasKeyword && hasConflict) {
-        warnings.push(rule.message);
-      }
-    }
-    
-    this._conflictWarnings.set(warnings);
+  // Deselect the tags a conflict suggests dropping
+  resolveConflict(conflict: TagConflict): void {
+    const remove = new Set(conflict.suggestedRemoval);
+    this._selectedTags.set(this._selectedTags().filter(t => !remove.has(t.text)));
+    this._availableTags.set(this._availableTags().map(t => remove.has(t.text) ? { ...t, selected: false } : t));
+    this._selectedOutputTags.set(this._selectedOutputTags().filter(t => !remove.has(t.text)));
+    this._outputTags.set(this._outputTags().map(t => remove.has(t.text) ? { ...t, selected: false } : t));
   }
   
   // Generate final prompt
@@ -540,7 +621,7 @@ export class SmartTagService {
     const selectedOutputTags = this._selectedOutputTags();
     
     if (!topic || !intent) {
-      this._error.set('Please provide topic and intent');
+      this._error.set(errorUiState('invalid', 'Please provide topic and intent'));
       return;
     }
     
@@ -588,18 +669,14 @@ Please provide a clear, student-friendly explanation.`;
     this._finalPrompt.set(finalPrompt);
     
     // Save to recent prompts
-    this.saveRecentPrompt(topic, finalPrompt);
-    
-    // Save as preset after generating a few prompts
-    // Disabled persistence
-    /*
-    const promptCount = parseInt(localStorage.getItem('betterask_prompt_count') || '0');
-    localStorage.setItem('betterask_prompt_count', (promptCount + 1).toString());
-    
-    if (promptCount >= 2) {
-      this.saveAsPreset();
-    }
-    */
+    this.recentPromptsService.add({
+      builder: 'smart-tag',
+      topic,
+      prompt: finalPrompt,
+      intent,
+      tags: selectedTags.map(t => ({ text: t.text, category: t.category })),
+      outputTags: selectedOutputTags.map(t => t.text)
+    });
   }
   
   // Reset all state
@@ -615,7 +692,7 @@ Please provide a clear, student-friendly explanation.`;
     this._isLoading.set(false);
     this._error.set(null);
     this._isDefaultPrompt.set(false);
-    this._conflictWarnings.set([]);
+    this.cancelComplementaryTags();
     
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
@@ -643,86 +720,96 @@ Please provide a clear, student-friendly explanation.`;
   }
   
   // Preset management
-  saveAsPreset(): void {
-    // Disabled persistence as per requirement
-    /*
+  saveAsPreset(name: string): TagPreset | null {
     const intent = this._intent();
     const selectedTags = this._selectedTags();
+    const selectedOutputTags = this._selectedOutputTags();
     
-    if (intent && selectedTags.length > 0) {
-      const preset = {
-        intent,
-        tagIds: selectedTags.map(t => t.id),
-        tags: selectedTags.map(t => ({ text: t.text, category: t.category }))
-      };
-      localStorage.setItem('betterask_last_preset', JSON.stringify(preset));
+    if (!intent || !name.trim() || (selectedTags.length === 0 && selectedOutputTags.length === 0)) {
+      return null;
     }
-    */
-  }
-  
-  loadLastPreset(): boolean {
-    // Disabled persistence as per requirement
-    return false;
-    /*
-    const presetData = localStorage.getItem('betterask_last_preset');
-    if (!presetData) return false;
     
-    try {
-      const preset = JSON.parse(presetData);
-      this._intent.set(preset.intent);
-      
-      // We can't restore exact tag IDs, but we can suggest similar setup
-      // This is a hint for the user to reselect similar tags
-      return true;
-    } catch {
-      return false;
-    }
-    */
+    return this.presetService.save({
+      name: name.trim(),
+      builder: 'smart-tag',
+      intent,
+      topicPattern: this._topic().trim(),
+      tags: selectedTags.map(t => ({ text: t.text, category: t.category })),
+      outputTags: selectedOutputTags.map(t => t.text)
+    });
   }
   
-  hasPreset(): boolean {
-    return false; // localStorage.getItem('betterask_last_preset');
+  deletePreset(id: string): void {
+    this.presetService.remove(id);
   }
   
-  // Recent prompts management
-  private loadRecentPrompts(): void {
-    // Disabled persistence as per requirement
-    this._recentPrompts.set([]);
-    /*
-    const recentsData = sessionStorage.getItem('betterask_recent_prompts');
-    if (recentsData) {
-      try {
-        const recents = JSON.parse(recentsData);
-        this._recentPrompts.set(recents);
-      } catch {
-        this._recentPrompts.set([]);
-      }
+  // Restore a preset: load fresh suggestions, then pin the preset's tags into them
+  async applyPreset(preset: TagPreset): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    
+    this._intent.set(preset.intent as Intent);
+    this._error.set(null);
+    this._finalPrompt.set('');
+    
+    // Keep the student's own topic; the preset's topic only fills an empty box
+    if (this._topic().length < 4 && preset.topicPattern) {
+      this._topic.set(preset.topicPattern);
+      this.detectMetaFromTopic(preset.topicPattern);
     }
-    */
+    
+    await this.loadAllSuggestions();
+    this.pinSelection(preset.tags, preset.outputTags);
   }
   
-  private saveRecentPrompt(topic: string, prompt: string): void {
-    const recents = this._recentPrompts();
-    const newRecent = { topic, prompt, timestamp: Date.now() };
-    
-    // Add to front, keep only last 3
-    const updated = [newRecent, ...recents].slice(0, 3);
-    this._recentPrompts.set(updated);
-    // sessionStorage.setItem('betterask_recent_prompts', JSON.stringify(updated));
+  // Select saved tags by text, adding any that the fresh suggestions lack
+  private pinSelection(savedTags: SmartTag[], savedOutputTags: string[]): void {
+    const smart = pinPresetTags<TagItem>(
+      this._availableTags(),
+      savedTags.map((tag, index) => ({ id: `tag-preset-${index + 1}`, text: tag.text, category: tag.category, selected: false })),
+      (a, b) => a.category === b.category
+    );
+    const output = pinPresetTags<OutputTagItem>(
+      this._outputTags(),
+      savedOutputTags.map((text, index) => ({ id: `output-preset-${index + 1}`, text, isDefault: false, selected: false }))
+    );
+    
+    // Same 10-tag limit as manual selection; a kept default output tag counts too
+    const limit = savedOutputTags.length > 0 ? 10 : 10 - this._selectedOutputTags().length;
+    const selectedIds = new Set(smart.pinned.slice(0, limit).map(t => t.id));
+    const tags = smart.tags.map(t => ({ ...t, selected: selectedIds.has(t.id) }));
+    this._availableTags.set(tags);
+    this._selectedTags.set(tags.filter(t => t.selected));
+    
+    // Without saved output tags, keep the default output selection
+    if (savedOutputTags.length > 0) {
+      const outputIds = new Set(output.pinned.slice(0, 10 - selectedIds.size).map(t => t.id));
+      const outputTags = output.tags.map(t => ({ ...t, selected: outputIds.has(t.id) }));
+      this._outputTags.set(outputTags);
+      this._selectedOutputTags.set(outputTags.filter(t => t.selected));
+    }
   }
-
+  
+  // Recent prompts management
   clearSession(): void {
-    sessionStorage.removeItem('betterask_recent_prompts');
-    this._recentPrompts.set([]);
-    // Also clear last preset from localStorage if we want a truly clean state?
-    // "Add a 'Clear session' action that clears sessionStorage keys used by this app."
-    // It says sessionStorage. But "Make the app open in a clean state every time"
-    // I'll stick to sessionStorage as requested for the button action.
+    this.recentPromptsService.clear();
   }
   
-  useRecentPrompt(recent: { topic: string; prompt: string; timestamp: number }): void {
+  // Restore a recent prompt with the intent and tags it was made from
+  async useRecentPrompt(recent: RecentPrompt): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    
+    this._intent.set(recent.intent as Intent);
     this._topic.set(recent.topic);
+    this._error.set(null);
+    this.detectMetaFromTopic(recent.topic);
+    
+    await this.loadAllSuggestions();
+    this.pinSelection(recent.tags, recent.outputTags);
     this._finalPrompt.set(recent.prompt);
-    // Note: We can't restore the exact tags that were used
+    this._isDefaultPrompt.set(false);
   }
 }
@@ -0,0 +1,90 @@
+import { Injectable, signal } from '@angular/core';
+import { TagBuilder } from '../models/smart-tag.model';
+import { TagPreset } from '../models/tag-preset.model';
+
+const PRESETS_KEY = 'betterask_tag_presets';
+// Oldest presets are dropped beyond this, per builder
+const MAX_PRESETS = 20;
+
+/**
+ * Merges preset tags into freshly loaded suggestions. Each wanted tag that is
+ * already suggested (same text, any case) is reused; the rest are appended, so
+ * a preset restores its exact selection whatever the model suggests this time.
+ * Returns the new list and the tags to select, in preset order.
+ */
+export function pinPresetTags<T extends { text: string }>(
+  available: T[],
+  wanted: T[],
+  sameTag: (a: T, b: T) => boolean = () => true
+): { tags: T[]; pinned: T[] } {
+  const tags = [...available];
+  const pinned: T[] = [];
+  for (const tag of wanted) {
+    const text = tag.text.toLowerCase();
+    const match = tags.find(t => t.text.toLowerCase() === text && sameTag(t, tag));
+    if (match) {
+      if (!pinned.includes(match)) pinned.push(match);
+    } else {
+      tags.push(tag);
+      pinned.push(tag);
+    }
+  }
+  return { tags, pinned };
+}
+
+/**
+ * Named tag selections saved in localStorage. Presets are only written when
+ * the user saves one, and survive reloads so a setup can be reused for the
+ * next topic.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TagPresetService {
+  private _presets = signal<TagPreset[]>(this.read());
+
+  // Newest first
+  readonly presets = this._presets.asReadonly();
+
+  forBuilder(builder: TagBuilder): TagPreset[] {
+    return this._presets().filter(p => p.builder === builder);
+  }
+
+  /** Saves a preset, replacing any preset of the same builder with the same name. */
+  save(preset: Omit<TagPreset, 'id' | 'createdAt'>): TagPreset {
+    const name = preset.name.trim().toLowerCase();
+    const saved: TagPreset = { ...preset, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    const others = this._presets().filter(p => !(p.builder === preset.builder && p.name.trim().toLowerCase() === name));
+    const sameBuilder = others.filter(p => p.builder === preset.builder).slice(MAX_PRESETS - 1);
+    this.write([saved, ...others.filter(p => !sameBuilder.includes(p))]);
+    return saved;
+  }
+
+  remove(id: string): void {
+    this.write(this._presets().filter(p => p.id !== id));
+  }
+
+  clear(): void {
+    localStorage.removeItem(PRESETS_KEY);
+    this._presets.set([]);
+  }
+
+  private read(): TagPreset[] {
+    try {
+      const presets = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+      return Array.isArray(presets) ? presets : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(presets: TagPreset[]): void {
+    this._presets.set(presets);
+    try {
+      localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch (error) {
+      // Storage can be full or disabled; presets then last until reload
+      console.warn('[Presets] Could not save presets', error);
+    }
+  }
+}